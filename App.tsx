@@ -1,119 +1,582 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { DocumentViewer } from './components/DocumentViewer';
+import { CompareView } from './components/PageComparison';
 import { QrCodeEditor } from './components/QrCodeEditor';
 import { Spinner } from './components/Spinner';
-import { DetectedQrCode, FileType } from './types';
-import { processFileForQrCodes, modifyFileWithNewQr } from './services/fileProcessor';
+import { BatchProcessor } from './components/BatchProcessor';
+import { DetectedQrCode, FileType, QrEdit, QrPlacement, QrReplaceOptions } from './types';
+import { ScanProgress } from './services/fileProcessor';
+import { scanDocumentInBackground, scanPageInBackground } from './services/backgroundScanner';
+import { applyVerifiedEdits, createInsertEdit, replayEdits, getEditedPayloads, splitLastStep } from './services/editSession';
+import { DocumentSession } from './services/documentSession';
+import { getFileFormat } from './services/imageFormats';
+import { inspectPdfSecurity, PdfSecurity } from './services/pdfSecurity';
+import { auditReportToCsv, AuditReport, buildAuditReport, createEditsFromReport, parseAuditReport } from './services/auditReport';
+import { AuditReportFormat } from './components/AuditReportPanel';
+import { deleteTemplate, listTemplates, saveTemplate } from './services/templateStore';
+import { EditTemplate, findTemplateMatches, parseTemplateFile } from './utils/editTemplates';
+import { BulkReplaceMatch } from './utils/bulkReplace';
+import { DEFAULT_GENERATION_OPTIONS } from './services/qrGenerator';
+import { createPlaceholderQrCode, decodeMarkedRegion } from './services/qrDetector';
+import { getFileType, getModifiedFilename, getPlacementCorners, getQrCorners, getPolygonCenter, isPointInPolygon, Point } from './utils/helpers';
+
+const DEFAULT_REPLACE_OPTIONS: QrReplaceOptions = {
+  pdfReplaceMode: 'cover',
+  pdfQrFormat: 'vector',
+  generation: DEFAULT_GENERATION_OPTIONS,
+};
 
 export default function App() {
   const [file, setFile] = useState<File | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
   const [fileType, setFileType] = useState<FileType | null>(null);
   const [fileDataUrl, setFileDataUrl] = useState<string | null>(null);
   const [qrCodes, setQrCodes] = useState<DetectedQrCode[]>([]);
-  const [editedQrCodes, setEditedQrCodes] = useState<Map<string, string>>(new Map());
+  const [edits, setEdits] = useState<QrEdit[]>([]);
+  const [redoStack, setRedoStack] = useState<QrEdit[]>([]);
+  const [failedEdits, setFailedEdits] = useState<QrEdit[]>([]);
+  const [replaceOptions, setReplaceOptions] = useState<QrReplaceOptions>(DEFAULT_REPLACE_OPTIONS);
+  const [pdfSecurity, setPdfSecurity] = useState<PdfSecurity | null>(null);
   const [selectedQrId, setSelectedQrId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Detection still running on a page that is already shown in the viewer.
+  const [isScanningPage, setIsScanningPage] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [processedFileUrl, setProcessedFileUrl] = useState<string | null>(null);
   const [totalPages, setTotalPages] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
+  const [inventory, setInventory] = useState<DetectedQrCode[] | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  // Where a new code will be added; null unless the user is placing one.
+  const [insertPlacement, setInsertPlacement] = useState<QrPlacement | null>(null);
+  const [compareView, setCompareView] = useState<CompareView | null>(null);
+  // The current page as it looked in the original upload, while comparing.
+  const [originalPageUrl, setOriginalPageUrl] = useState<string | null>(null);
+  // Null until loaded from storage.
+  const [templates, setTemplates] = useState<EditTemplate[] | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scanAbortRef = useRef<AbortController | null>(null);
+  const pageScanAbortRef = useRef<AbortController | null>(null);
+  // The session's working copy accumulates every replacement made so far, with
+  // its parsed documents and per-page caches; `file` always stays the untouched
+  // original upload.
+  const sessionRef = useRef<DocumentSession | null>(null);
+  // A second, never-edited session over the original upload, opened the first
+  // time a page is compared.
+  const originalSessionRef = useRef<DocumentSession | null>(null);
+  // Pages of the current upload that auto-apply templates have already run on,
+  // so an undone change isn't applied again on returning to the page.
+  const autoAppliedPagesRef = useRef(new Set<number>());
+
+  const editedQrCodes = useMemo(() => getEditedPayloads(edits, [...qrCodes, ...(inventory ?? [])]), [edits, qrCodes, inventory]);
+
+  useEffect(() => {
+    listTemplates().then(setTemplates, error => {
+      console.error("Error loading templates:", error);
+      setTemplates([]);
+    });
+  }, []);
+
+  const isComparing = compareView !== null;
+  useEffect(() => {
+    setOriginalPageUrl(null);
+    if (!isComparing || !file || !fileType) return;
+    originalSessionRef.current ??= new DocumentSession(file, fileType);
+    let cancelled = false;
+    originalSessionRef.current.renderPage(currentPage).then(
+      dataUrl => !cancelled && setOriginalPageUrl(dataUrl),
+      error => console.error("Error rendering the original page:", error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [isComparing, file, fileType, currentPage]);
 
   const resetState = () => {
     setFile(null);
     setFileType(null);
     setFileDataUrl(null);
     setQrCodes([]);
-    setEditedQrCodes(new Map());
+    setEdits([]);
+    setRedoStack([]);
+    setFailedEdits([]);
+    // Options a file forced on, like incremental saves for a signed PDF,
+    // must not carry over to the next one.
+    setReplaceOptions(DEFAULT_REPLACE_OPTIONS);
+    setPdfSecurity(null);
     setSelectedQrId(null);
     setProcessedFileUrl(null);
     setTotalPages(0);
     setCurrentPage(1);
+    scanAbortRef.current?.abort();
+    pageScanAbortRef.current?.abort();
+    setIsScanningPage(false);
+    sessionRef.current?.destroy();
+    sessionRef.current = null;
+    setInventory(null);
+    setScanProgress(null);
+    setInsertPlacement(null);
+    setCompareView(null);
+    setOriginalPageUrl(null);
+    originalSessionRef.current?.destroy();
+    originalSessionRef.current = null;
+    autoAppliedPagesRef.current = new Set();
     if (processedFileUrl) {
       URL.revokeObjectURL(processedFileUrl);
     }
   };
 
+  // Starts a fresh page scan, cancelling any page scan still running. The page is
+  // shown as soon as it is rendered; detection carries on in the background.
+  const startPageScan = (
+    session: DocumentSession,
+    pageNum: number
+  ): Promise<{ codes: DetectedQrCode[], dataUrl: string, pageCount?: number }> => {
+    pageScanAbortRef.current?.abort();
+    const cached = session.getCachedPage(pageNum);
+    if (cached) {
+      pageScanAbortRef.current = null;
+      setIsScanningPage(false);
+      return Promise.resolve(cached);
+    }
+
+    const controller = new AbortController();
+    pageScanAbortRef.current = controller;
+    const onRendered = (dataUrl: string, pageCount?: number) => {
+      setFileDataUrl(dataUrl);
+      setCurrentPage(pageNum);
+      if (pageCount) setTotalPages(pageCount);
+      setIsLoading(false);
+      setIsScanningPage(true);
+    };
+    const key = session.key;
+    const scan = scanPageInBackground(session, pageNum, onRendered, controller.signal);
+    scan.then(({ codes, dataUrl }) => session.cachePage(pageNum, { codes, dataUrl }, key), () => {});
+    const finish = () => {
+      if (pageScanAbortRef.current === controller) {
+        pageScanAbortRef.current = null;
+        setIsScanningPage(false);
+      }
+    };
+    scan.then(finish, finish);
+    return scan;
+  };
+
   const handleFileChange = useCallback(async (selectedFile: File) => {
     resetState();
     setIsLoading(true);
     setLoadingMessage('Analyzing file for QR codes...');
     setFile(selectedFile);
 
-    const type = selectedFile.type.startsWith('image/') ? 'image' : selectedFile.type === 'application/pdf' ? 'pdf' : null;
+    const type = getFileType(selectedFile);
     setFileType(type);
+    const session = new DocumentSession(selectedFile, type);
+    sessionRef.current = session;
+    if (type === 'pdf') {
+      // A full rewrite would break any signature, so signed files default to
+      // incremental saves.
+      inspectPdfSecurity(selectedFile).then(security => {
+        if (sessionRef.current !== session) return;
+        setPdfSecurity(security);
+        if (security.signed) setReplaceOptions(options => ({ ...options, pdfSaveMode: 'incremental' }));
+      }, error => console.error("Error inspecting PDF:", error));
+    }
 
+    let cancelled = false;
     try {
-      const { codes, dataUrl, pageCount } = await processFileForQrCodes(selectedFile, 1);
+      const { codes, dataUrl, pageCount } = await startPageScan(session, 1);
       setQrCodes(codes);
       setFileDataUrl(dataUrl);
-      if (type === 'pdf') {
-        setTotalPages(pageCount || 1);
-        setCurrentPage(1);
-      }
+      setTotalPages(pageCount || 1);
+      setCurrentPage(1);
     } catch (error) {
-      console.error("Error processing file:", error);
-      alert("Could not process the file. It might be corrupted or in an unsupported format.");
-      resetState();
+      // A newer upload cancelled this one; its own handler owns the state now.
+      cancelled = (error as Error).name === 'AbortError';
+      if (!cancelled) {
+        console.error("Error processing file:", error);
+        alert("Could not process the file. It might be corrupted or in an unsupported format.");
+        resetState();
+      }
     } finally {
-      setIsLoading(false);
-      setLoadingMessage('');
+      if (!cancelled) {
+        setIsLoading(false);
+        setLoadingMessage('');
+      }
     }
   }, [processedFileUrl]);
   
-  const handlePageChange = useCallback(async (newPage: number) => {
-      if (!file || newPage < 1 || newPage > totalPages) return;
+  const handlePageChange = useCallback(async (newPage: number): Promise<DetectedQrCode[] | null> => {
+      const session = sessionRef.current;
+      if (!session || newPage < 1 || newPage > totalPages) return null;
       setIsLoading(true);
       setLoadingMessage(`Loading page ${newPage}...`);
+      setQrCodes([]);
+      setSelectedQrId(null);
+      setInsertPlacement(null);
+      let cancelled = false;
       try {
-        const { codes, dataUrl } = await processFileForQrCodes(file, newPage);
+        const { codes, dataUrl } = await startPageScan(session, newPage);
         setQrCodes(codes);
         setFileDataUrl(dataUrl);
         setCurrentPage(newPage);
-        setSelectedQrId(null);
+        return codes;
       } catch (error) {
-          console.error(`Error processing page ${newPage}:`, error);
-          alert(`Failed to load page ${newPage}.`);
+          // Cancelled by a newer page change or upload.
+          cancelled = (error as Error).name === 'AbortError';
+          if (!cancelled) {
+            console.error(`Error processing page ${newPage}:`, error);
+            alert(`Failed to load page ${newPage}.`);
+          }
+          return null;
       } finally {
-          setIsLoading(false);
-          setLoadingMessage('');
+          if (!cancelled) {
+            setIsLoading(false);
+            setLoadingMessage('');
+          }
       }
-  }, [file, totalPages]);
+  }, [totalPages]);
 
-  const handleQrUpdate = useCallback(async (qrToUpdate: DetectedQrCode, newText: string) => {
-    if (!file || !fileType) return;
+  // Resolves to the codes found, or null when the scan was cancelled or failed.
+  const handleScanDocument = useCallback(async (): Promise<DetectedQrCode[] | null> => {
+    const session = sessionRef.current;
+    if (!session || totalPages <= 1) return null;
+    scanAbortRef.current?.abort();
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    setScanProgress({ current: 0, total: totalPages });
+
+    try {
+      const codes = await scanDocumentInBackground(session, setScanProgress, controller.signal);
+      if (controller.signal.aborted) return null;
+      setInventory(codes);
+      return codes;
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error("Error scanning document:", error);
+        alert("Failed to scan the whole document.");
+      }
+      return null;
+    } finally {
+      if (scanAbortRef.current === controller) {
+        scanAbortRef.current = null;
+        setScanProgress(null);
+      }
+    }
+  }, [totalPages]);
+
+  const handleCancelScan = useCallback(() => {
+    scanAbortRef.current?.abort();
+  }, []);
+
+  // Inventory entries come from a separate scan, so the matching code on the
+  // page is found by location rather than by id.
+  const handleInventorySelect = useCallback(async (qr: DetectedQrCode) => {
+    const page = qr.page ?? 1;
+    const codes = page === currentPage ? qrCodes : await handlePageChange(page);
+    const target = getPolygonCenter(getQrCorners(qr.location));
+    const match = codes?.find(code => isPointInPolygon(target, getQrCorners(code.location)));
+    if (match) {
+      setSelectedQrId(match.id);
+    }
+  }, [currentPage, qrCodes, handlePageChange]);
+
+  // A hand-marked region joins the page's codes even when it can't be decoded,
+  // so it can still be replaced. Marking an already-detected code just selects it.
+  const handleRegionMarked = useCallback(async (corners: Point[]) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const existing = qrCodes.find(qr => isPointInPolygon(getPolygonCenter(getQrCorners(qr.location)), corners));
+    if (existing) {
+      setSelectedQrId(existing.id);
+      return;
+    }
     setIsLoading(true);
-    setLoadingMessage('Replacing QR code and updating file...');
-    
+    setLoadingMessage('Decoding the marked region...');
+
     try {
-      const { newFileDataUrl, newFileBlob } = await modifyFileWithNewQr(file, fileType, qrToUpdate, newText, currentPage);
-      
-      const newQrCodes = qrCodes.map(qr => qr.id === qrToUpdate.id ? { ...qr, data: newText } : qr);
-      setQrCodes(newQrCodes);
-      
-      const updatedEditedCodes = new Map(editedQrCodes);
-      updatedEditedCodes.set(qrToUpdate.id, newText);
-      setEditedQrCodes(updatedEditedCodes);
+      const found = await decodeMarkedRegion(await session.renderPageCanvas(currentPage), corners);
+      const marked: DetectedQrCode = { ...found, id: crypto.randomUUID(), page: currentPage };
+      const codes = [...qrCodes, marked];
+      setQrCodes(codes);
+      setSelectedQrId(marked.id);
+      const cached = session.getCachedPage(currentPage);
+      if (cached) {
+        session.cachePage(currentPage, { ...cached, codes }, session.key);
+      }
+    } catch (error) {
+      console.error("Error decoding marked region:", error);
+      alert("Failed to read the marked region.");
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [qrCodes, currentPage]);
 
-      if (processedFileUrl) {
-        URL.revokeObjectURL(processedFileUrl);
+  const showWorkingFile = (newWorkingFile: File, hasEdits: boolean) => {
+    if (processedFileUrl) {
+      URL.revokeObjectURL(processedFileUrl);
+    }
+    setProcessedFileUrl(hasEdits ? URL.createObjectURL(newWorkingFile) : null);
+  };
+
+  // Applies and verifies a single edit, reporting a rollback to the user.
+  // Resolves to whether the edit was kept.
+  const applySingleEdit = async (edit: QrEdit, message: string): Promise<boolean> => {
+    const session = sessionRef.current;
+    if (!session) return false;
+    setIsLoading(true);
+    setLoadingMessage(message);
+
+    try {
+      const { dataUrl, applied, failed } = await applyVerifiedEdits(session, [edit]);
+
+      if (failed.length > 0) {
+        setFailedEdits([...failedEdits, ...failed]);
+        alert("The new QR code didn't scan back as the requested text, so the change was rolled back. Try a larger quiet zone or a lower error correction level.");
+        return false;
       }
-      setProcessedFileUrl(URL.createObjectURL(newFileBlob));
+
+      setEdits([...edits, ...applied]);
+      setRedoStack([]);
+      showWorkingFile(session.file, true);
       
       // Re-render the canvas with the modified content for visual feedback
-      setFileDataUrl(newFileDataUrl);
+      if (dataUrl) setFileDataUrl(dataUrl);
+      return true;
       
     } catch (error) {
       console.error("Error updating QR code:", error);
-      alert("Failed to update the QR code in the document.");
+      alert(`Failed to update the QR code in the document. ${(error as Error).message}`);
+      return false;
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  const handleQrUpdate = useCallback(async (qrToUpdate: DetectedQrCode, newText: string) => {
+    await applySingleEdit({
+      id: crypto.randomUUID(),
+      qrCode: qrToUpdate,
+      page: qrToUpdate.page ?? currentPage,
+      index: qrCodes.findIndex(qr => qr.id === qrToUpdate.id),
+      oldText: editedQrCodes.get(qrToUpdate.id) ?? qrToUpdate.data,
+      newText,
+      options: replaceOptions,
+    }, 'Replacing QR code and verifying it scans...');
+  }, [qrCodes, processedFileUrl, currentPage, edits, failedEdits, editedQrCodes, replaceOptions]);
+
+  // Starts placing a new code, suggesting a square in the middle of the page.
+  const handleStartInsert = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const size = Math.round(Math.min(canvas.width, canvas.height) / 5);
+    setInsertPlacement({ x: Math.round((canvas.width - size) / 2), y: Math.round((canvas.height - size) / 2), size });
+    setSelectedQrId(null);
+    setCompareView(null);
+  }, []);
+
+  // The placeholder becomes a regular code on the page, so the new code can be
+  // edited again like any detected one.
+  const handleQrInsert = useCallback(async (newText: string) => {
+    if (!insertPlacement) return;
+    const placeholder: DetectedQrCode = {
+      ...createPlaceholderQrCode(getPlacementCorners(insertPlacement)),
+      id: crypto.randomUUID(),
+      page: currentPage,
+    };
+    const edit = createInsertEdit(placeholder, currentPage, qrCodes.length, newText, replaceOptions);
+    if (await applySingleEdit(edit, 'Adding QR code and verifying it scans...')) {
+      setQrCodes([...qrCodes, placeholder]);
+      setSelectedQrId(placeholder.id);
+      setInsertPlacement(null);
+    }
+  }, [insertPlacement, qrCodes, processedFileUrl, currentPage, edits, failedEdits, replaceOptions]);
+
+  const rebuildWithEdits = useCallback(async (remainingEdits: QrEdit[], newRedoStack: QrEdit[]) => {
+    const session = sessionRef.current;
+    if (!file || !session) return;
+    setIsLoading(true);
+    setLoadingMessage('Rebuilding document from edit history...');
+
+    try {
+      const removedEdits = edits.filter(edit => !remainingEdits.includes(edit));
+      const newWorkingFile = await replayEdits(session, file, remainingEdits, removedEdits);
+      const dataUrl = await session.renderPage(currentPage);
+
+      setEdits(remainingEdits);
+      setRedoStack(newRedoStack);
+      showWorkingFile(newWorkingFile, remainingEdits.length > 0);
+      setFileDataUrl(dataUrl);
+      // Codes that only existed because an edit added them go with it.
+      const removedInserts = new Set(removedEdits.filter(edit => edit.inserted).map(edit => edit.qrCode.id));
+      if (removedInserts.size > 0) {
+        setQrCodes(qrCodes.filter(qr => !removedInserts.has(qr.id)));
+        if (selectedQrId && removedInserts.has(selectedQrId)) setSelectedQrId(null);
+      }
+    } catch (error) {
+      console.error("Error rebuilding document:", error);
+      alert("Failed to revert the edit.");
+    } finally {
+      setIsLoading(false);
+      setLoadingMessage('');
+    }
+  }, [file, edits, qrCodes, selectedQrId, currentPage, processedFileUrl]);
+
+  const handleUndo = useCallback(() => {
+    const { rest, step } = splitLastStep(edits);
+    if (step.length === 0) return;
+    rebuildWithEdits(rest, [...redoStack, ...step]);
+  }, [edits, redoStack, rebuildWithEdits]);
+
+  const appendEdits = useCallback(async (step: QrEdit[], newRedoStack: QrEdit[], message: string) => {
+    const session = sessionRef.current;
+    if (!session || step.length === 0) return;
+    setIsLoading(true);
+    setLoadingMessage(message);
+
+    try {
+      const { applied, failed } = await applyVerifiedEdits(session, step);
+      setRedoStack(newRedoStack);
+      if (failed.length > 0) {
+        setFailedEdits([...failedEdits, ...failed]);
+      }
+      if (applied.length > 0) {
+        const reinserted = applied
+          .filter(edit => edit.inserted && edit.page === currentPage && !qrCodes.some(qr => qr.id === edit.qrCode.id))
+          .map(edit => edit.qrCode);
+        if (reinserted.length > 0) setQrCodes([...qrCodes, ...reinserted]);
+        setEdits([...edits, ...applied]);
+        showWorkingFile(session.file, true);
+        setFileDataUrl(await session.renderPage(currentPage));
+      }
+      if (failed.length > 0) {
+        alert(`${failed.length} of ${step.length} QR codes didn't scan back as their new text and were rolled back.`);
+      }
+    } catch (error) {
+      console.error("Error applying QR code replacements:", error);
+      alert(`Failed to update the QR codes in the document. ${(error as Error).message}`);
     } finally {
       setIsLoading(false);
       setLoadingMessage('');
     }
-  }, [file, fileType, qrCodes, processedFileUrl, currentPage, editedQrCodes]);
+  }, [edits, failedEdits, qrCodes, currentPage, processedFileUrl]);
+
+  const handleRedo = useCallback(() => {
+    const { rest, step } = splitLastStep(redoStack);
+    appendEdits(step, rest, 'Reapplying QR code replacement...');
+  }, [redoStack, appendEdits]);
+
+  const handleBulkReplace = useCallback((matches: BulkReplaceMatch[]) => {
+    const candidates = inventory ?? qrCodes;
+    const batchId = crypto.randomUUID();
+    const batch: QrEdit[] = matches.map(({ qrCode, oldText, newText }) => {
+      const page = qrCode.page ?? currentPage;
+      return {
+        id: crypto.randomUUID(),
+        qrCode,
+        page,
+        index: (qrCodes.includes(qrCode) ? qrCodes : candidates).filter(qr => (qr.page ?? currentPage) === page).indexOf(qrCode),
+        oldText,
+        newText,
+        options: replaceOptions,
+        batchId,
+      };
+    });
+    appendEdits(batch, [], `Replacing ${batch.length} QR codes...`);
+  }, [inventory, qrCodes, currentPage, appendEdits, replaceOptions]);
+
+  // Once a page's codes are in, templates marked for it apply their rules
+  // straight away; a code matched by several takes the first template's change.
+  useEffect(() => {
+    if (!file || !templates || isLoading || isScanningPage || autoAppliedPagesRef.current.has(currentPage)) return;
+    autoAppliedPagesRef.current.add(currentPage);
+    const matches: BulkReplaceMatch[] = [];
+    templates.filter(template => template.autoApply).forEach(template => {
+      try {
+        findTemplateMatches(qrCodes, qr => editedQrCodes.get(qr.id) || qr.data, template)
+          .filter(match => !matches.some(m => m.qrCode === match.qrCode))
+          .forEach(match => matches.push(match));
+      } catch (error) {
+        console.error(`Error applying template "${template.name}":`, error);
+      }
+    });
+    if (matches.length > 0) handleBulkReplace(matches);
+  }, [file, templates, isLoading, isScanningPage, currentPage, qrCodes, editedQrCodes, handleBulkReplace]);
+
+  const handleSaveTemplate = useCallback((template: EditTemplate) => {
+    saveTemplate(template).then(
+      () => setTemplates(prev => [...(prev ?? []).filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name))),
+      error => {
+        console.error("Error saving template:", error);
+        alert("Failed to save the template.");
+      }
+    );
+  }, []);
+
+  const handleDeleteTemplate = useCallback((id: string) => {
+    deleteTemplate(id).then(
+      () => setTemplates(prev => (prev ?? []).filter(t => t.id !== id)),
+      error => console.error("Error deleting template:", error)
+    );
+  }, []);
+
+  // Imported templates replace stored ones with the same id.
+  const handleImportTemplates = useCallback(async (templateFile: File) => {
+    try {
+      const imported = parseTemplateFile(await templateFile.text());
+      for (const template of imported) {
+        await saveTemplate(template);
+      }
+      setTemplates(await listTemplates());
+    } catch (error) {
+      alert(`Could not import ${templateFile.name}: ${(error as Error).message}`);
+    }
+  }, []);
+
+  // The report covers the whole document, so a multi-page one is scanned first
+  // if it hasn't been.
+  const getDocumentCodes = async (): Promise<DetectedQrCode[] | null> =>
+    inventory ?? (totalPages > 1 ? handleScanDocument() : qrCodes);
+
+  const handleExportReport = useCallback(async (format: AuditReportFormat): Promise<Blob> => {
+    const session = sessionRef.current;
+    if (!file || !session) throw new Error('No document is open.');
+    const codes = await getDocumentCodes();
+    if (!codes) throw new Error('The document scan did not finish.');
+    const output = edits.length > 0 ? { file: session.file, name: getModifiedFilename(file.name) } : null;
+    const report = await buildAuditReport(file, output, codes, edits);
+    return format === 'json'
+      ? new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+      : new Blob([auditReportToCsv(report)], { type: 'text/csv' });
+  }, [file, edits, inventory, qrCodes, totalPages, handleScanDocument]);
+
+  const handleImportReport = useCallback(async (reportFile: File) => {
+    let report: AuditReport;
+    try {
+      report = parseAuditReport(await reportFile.text());
+    } catch (error) {
+      alert(`Could not read ${reportFile.name}: ${(error as Error).message}`);
+      return;
+    }
+    const codes = await getDocumentCodes();
+    if (!codes) return;
+    const { edits: step, unmatched } = createEditsFromReport(report, codes, editedQrCodes, replaceOptions);
+    if (unmatched.length > 0) {
+      alert(`${unmatched.length} of the report's changes couldn't be matched to a code in this document:\n${unmatched.map(entry => `page ${entry.page}: ${entry.originalPayload}`).join('\n')}`);
+    } else if (step.length === 0) {
+      alert('This document already has every change in the report.');
+    }
+    appendEdits(step, [], `Re-applying ${step.length} changes from ${reportFile.name}...`);
+  }, [inventory, qrCodes, totalPages, handleScanDocument, editedQrCodes, replaceOptions, appendEdits]);
+
+  // Reverting an arbitrary edit branches the history, so the redo stack is dropped.
+  const handleRevertEdit = useCallback((editId: string) => {
+    rebuildWithEdits(edits.filter(edit => edit.id !== editId), []);
+  }, [edits, rebuildWithEdits]);
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200 flex flex-col p-4 sm:p-6 lg:p-8 font-sans">
@@ -127,9 +590,11 @@ export default function App() {
       </header>
       
       <main className="flex-grow flex flex-col lg:flex-row gap-6">
-        {!file ? (
+        {batchFiles ? (
+          <BatchProcessor files={batchFiles} options={replaceOptions} onOptionsChange={setReplaceOptions} onExit={() => setBatchFiles(null)} />
+        ) : !file ? (
           <div className="w-full flex items-center justify-center">
-             <FileUpload onFileSelect={handleFileChange} />
+             <FileUpload onFileSelect={handleFileChange} onFilesSelect={setBatchFiles} />
           </div>
         ) : (
           <>
@@ -143,11 +608,19 @@ export default function App() {
                 qrCodes={qrCodes}
                 selectedQrId={selectedQrId}
                 onQrSelect={setSelectedQrId}
+                editedQrCodes={editedQrCodes}
                 canvasRef={canvasRef}
                 currentPage={currentPage}
                 totalPages={totalPages}
                 onPageChange={handlePageChange}
-                fileType={fileType}
+                onRegionMarked={handleRegionMarked}
+                canMarkRegion={!isLoading && !isScanningPage}
+                insertPlacement={insertPlacement}
+                onInsertPlacementChange={setInsertPlacement}
+                compareView={compareView}
+                onCompareViewChange={setCompareView}
+                originalDataUrl={originalPageUrl}
+                canCompare={edits.length > 0}
               />
             </div>
 
@@ -161,6 +634,41 @@ export default function App() {
                 originalFilename={file?.name || 'document'}
                 onReset={resetState}
                 editedQrCodes={editedQrCodes}
+                isScanningPage={isScanningPage}
+                edits={edits}
+                failedEdits={failedEdits}
+                onClearFailedEdits={() => setFailedEdits([])}
+                canRedo={redoStack.length > 0}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onRevertEdit={handleRevertEdit}
+                isMultiPage={totalPages > 1}
+                currentPage={currentPage}
+                inventory={inventory}
+                scanProgress={scanProgress}
+                onScanDocument={handleScanDocument}
+                onCancelScan={handleCancelScan}
+                onInventorySelect={handleInventorySelect}
+                bulkCandidates={inventory ?? qrCodes}
+                onBulkReplace={handleBulkReplace}
+                fileType={fileType}
+                fileFormat={file && getFileFormat(file)}
+                pdfSecurity={pdfSecurity}
+                replaceOptions={replaceOptions}
+                onReplaceOptionsChange={setReplaceOptions}
+                insertPlacement={insertPlacement}
+                onStartInsert={handleStartInsert}
+                onInsertPlacementChange={setInsertPlacement}
+                onQrInsert={handleQrInsert}
+                onCancelInsert={() => setInsertPlacement(null)}
+                pageWidth={canvasRef.current?.width ?? 0}
+                pageHeight={canvasRef.current?.height ?? 0}
+                onExportReport={handleExportReport}
+                onImportReport={handleImportReport}
+                templates={templates ?? []}
+                onSaveTemplate={handleSaveTemplate}
+                onDeleteTemplate={handleDeleteTemplate}
+                onImportTemplates={handleImportTemplates}
               />
             </aside>
           </>
@@ -0,0 +1,61 @@
+import React, { useRef, useState } from 'react';
+import { downloadBlob } from '../utils/helpers';
+
+export type AuditReportFormat = 'json' | 'csv';
+
+interface AuditReportPanelProps {
+  originalFilename: string;
+  onExport: (format: AuditReportFormat) => Promise<Blob>;
+  onImport: (file: File) => void;
+}
+
+export const AuditReportPanel: React.FC<AuditReportPanelProps> = ({ originalFilename, onExport, onImport }) => {
+  const [exporting, setExporting] = useState<AuditReportFormat | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async (format: AuditReportFormat) => {
+    setExporting(format);
+    try {
+      downloadBlob(await onExport(format), `${originalFilename.replace(/\.[^.]*$/, '')}_qr-audit.${format}`);
+    } catch (error) {
+      console.error("Error exporting audit report:", error);
+      alert("Failed to export the audit report.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const reportFile = e.target.files?.[0];
+    e.target.value = '';
+    if (reportFile) onImport(reportFile);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700">
+      <h3 className="font-bold text-lg mb-2">Audit Report</h3>
+      <div className="flex gap-2">
+        {(['json', 'csv'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className="px-3 py-1 bg-slate-700 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600"
+          >
+            {exporting === format ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+          </button>
+        ))}
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 py-1 bg-slate-700 rounded text-sm hover:bg-slate-600"
+        >
+          Re-apply JSON
+        </button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportChange} className="hidden" />
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        Lists every code with its position, old and new payload, settings and SHA-256 hashes of both files.
+      </p>
+    </div>
+  );
+};
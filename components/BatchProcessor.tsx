@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PayloadMapping, parseMappingFile } from '../utils/payloadMapping';
+import { BatchFileResult, BatchStatus, emptyBatchResult, processBatch, buildBatchZip } from '../services/batchProcessor';
+import { QrReplaceOptions } from '../types';
+import { getFileType } from '../utils/helpers';
+import { ReplaceOptionsPanel } from './ReplaceOptionsPanel';
+import { DownloadIcon } from './icons/DownloadIcon';
+
+interface BatchProcessorProps {
+  files: File[];
+  options: QrReplaceOptions;
+  onOptionsChange: (options: QrReplaceOptions) => void;
+  onExit: () => void;
+}
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  pending: 'text-slate-500',
+  processing: 'text-cyan-400',
+  done: 'text-green-400',
+  unchanged: 'text-slate-400',
+  error: 'text-red-400',
+  cancelled: 'text-amber-400',
+};
+
+export const BatchProcessor: React.FC<BatchProcessorProps> = ({ files, options, onOptionsChange, onExit }) => {
+  const [mapping, setMapping] = useState<PayloadMapping | null>(null);
+  const [mappingName, setMappingName] = useState('');
+  const [mappingError, setMappingError] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchFileResult[]>(() =>
+    files.map(file => emptyBatchResult(file, 'pending')));
+  const [isRunning, setIsRunning] = useState(false);
+  const [zipUrl, setZipUrl] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    if (zipUrl) URL.revokeObjectURL(zipUrl);
+  }, [zipUrl]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleMappingChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const mappingFile = e.target.files?.[0];
+    if (!mappingFile) return;
+    try {
+      setMapping(await parseMappingFile(mappingFile));
+      setMappingName(mappingFile.name);
+      setMappingError(null);
+    } catch (error) {
+      setMapping(null);
+      setMappingError(`Could not read ${mappingFile.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!mapping) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setZipUrl(null);
+    try {
+      const finalResults = await processBatch(files, mapping, options, (index, result) => {
+        setResults(prev => prev.map((r, i) => (i === index ? result : r)));
+      }, controller.signal);
+      // A cancelled batch still gets the files it finished and a report of the rest.
+      setZipUrl(URL.createObjectURL(await buildBatchZip(finalResults)));
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const finished = results.filter(r => r.status !== 'pending' && r.status !== 'processing').length;
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-slate-800 rounded-lg shadow-2xl p-6 flex flex-col">
+      <div className="flex items-center justify-between mb-4 border-b border-slate-700 pb-2">
+        <h2 className="text-2xl font-bold">Batch Mode: {files.length} Files</h2>
+        <button onClick={onExit} disabled={isRunning} className="px-3 py-1 bg-slate-700 rounded text-sm hover:bg-slate-600 disabled:opacity-50">
+          Back
+        </button>
+      </div>
+
+      <label className="block mb-4">
+        <span className="font-semibold text-slate-300">Payload mapping (CSV or JSON)</span>
+        <input
+          type="file"
+          accept=".csv, .json"
+          onChange={handleMappingChange}
+          disabled={isRunning}
+          className="block w-full mt-1 text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200"
+        />
+        {mapping && <span className="text-sm text-slate-400">{mappingName}: {mapping.size} rules loaded</span>}
+        {mappingError && <span className="text-sm text-red-400">{mappingError}</span>}
+      </label>
+      <div className="mb-4">
+        <ReplaceOptionsPanel
+          options={options}
+          onChange={onOptionsChange}
+          fileType={files.some(file => getFileType(file) === 'pdf') ? 'pdf' : 'image'}
+        />
+      </div>
+
+      <div className="flex-grow overflow-y-auto max-h-[50vh] pr-2">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="py-2">File</th>
+              <th className="py-2">Status</th>
+              <th className="py-2 text-right">Replaced</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result, i) => (
+              <tr key={i} className="border-b border-slate-700/50">
+                <td className="py-2 pr-2 break-all">{result.file.name}</td>
+                <td className={`py-2 ${STATUS_STYLES[result.status]}`} title={result.error}>
+                  {result.status}{result.error && `: ${result.error}`}
+                  {result.failed.length > 0 && ` (${result.failed.length} rolled back)`}
+                </td>
+                <td className="py-2 text-right">{result.replaced} / {result.detected}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isRunning && (
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-sm text-slate-400">Processed {finished} of {files.length} files...</p>
+          <button onClick={handleCancel} className="px-3 py-1 bg-red-700 rounded text-sm hover:bg-red-600">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      <div className="mt-4 pt-4 border-t border-slate-700 flex flex-col gap-2">
+        <button
+          onClick={handleStart}
+          disabled={!mapping || isRunning}
+          className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+        >
+          {isRunning ? 'Processing...' : 'Run Batch'}
+        </button>
+        {zipUrl && (
+          <a
+            href={zipUrl}
+            download="qr-batch-results.zip"
+            className="w-full flex items-center justify-center gap-2 bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-lg transition-colors text-center"
+          >
+            <DownloadIcon className="w-5 h-5"/>
+            Download ZIP with Summary Report
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
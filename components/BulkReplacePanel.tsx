@@ -0,0 +1,75 @@
+import React, { useState, useMemo } from 'react';
+import { DetectedQrCode } from '../types';
+import { BulkReplaceMatch, BulkReplaceRule, findBulkMatches } from '../utils/bulkReplace';
+
+interface BulkReplacePanelProps {
+  candidates: DetectedQrCode[];
+  editedQrCodes: Map<string, string>;
+  onBulkReplace: (matches: BulkReplaceMatch[]) => void;
+  onClose: () => void;
+}
+
+export const BulkReplacePanel: React.FC<BulkReplacePanelProps> = ({ candidates, editedQrCodes, onBulkReplace, onClose }) => {
+  const [rule, setRule] = useState<BulkReplaceRule>({ pattern: '', replacement: '', useRegex: false, caseSensitive: true });
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: findBulkMatches(candidates, qr => editedQrCodes.get(qr.id) || qr.data, rule), error: null };
+    } catch (e) {
+      return { matches: [], error: (e as Error).message };
+    }
+  }, [candidates, editedQrCodes, rule]);
+
+  const updateRule = (changes: Partial<BulkReplaceRule>) => setRule({ ...rule, ...changes });
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-lg">Bulk Replace</h3>
+        <button onClick={onClose} className="text-sm text-slate-400 hover:text-slate-200">Close</button>
+      </div>
+      <input
+        value={rule.pattern}
+        onChange={(e) => updateRule({ pattern: e.target.value })}
+        placeholder={rule.useRegex ? 'Regular expression' : 'Find text'}
+        className="w-full p-2 mb-2 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+      />
+      <input
+        value={rule.replacement}
+        onChange={(e) => updateRule({ replacement: e.target.value })}
+        placeholder={rule.useRegex ? 'Replacement ($1 for groups)' : 'Replace with'}
+        className="w-full p-2 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+      />
+      <div className="flex gap-4 mt-2 text-sm text-slate-300">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={rule.useRegex} onChange={(e) => updateRule({ useRegex: e.target.checked })} />
+          Regex
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={rule.caseSensitive} onChange={(e) => updateRule({ caseSensitive: e.target.checked })} />
+          Match case
+        </label>
+      </div>
+      {error && <p className="text-red-400 text-sm mt-1">{error}</p>}
+      {rule.pattern && !error && (
+        <div className="mt-2 max-h-40 overflow-y-auto pr-2 space-y-2">
+          {matches.length === 0 && <p className="text-sm text-slate-500">No QR codes match.</p>}
+          {matches.map(({ qrCode, oldText, newText }) => (
+            <div key={qrCode.id} className="p-2 bg-slate-900 rounded-lg text-sm">
+              {qrCode.page && <p className="text-xs text-slate-400">Page {qrCode.page}</p>}
+              <p className="text-slate-500 line-through break-words truncate">{oldText}</p>
+              <p className="text-cyan-400 break-words truncate">{newText}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={() => onBulkReplace(matches)}
+        disabled={matches.length === 0}
+        className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+      >
+        Replace {matches.length} QR Code{matches.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
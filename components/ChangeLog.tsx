@@ -0,0 +1,88 @@
+import React from 'react';
+import { QrEdit } from '../types';
+
+interface ChangeLogProps {
+  edits: QrEdit[];
+  failedEdits: QrEdit[];
+  onClearFailedEdits: () => void;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevertEdit: (editId: string) => void;
+}
+
+export const ChangeLog: React.FC<ChangeLogProps> = ({ edits, failedEdits, onClearFailedEdits, canRedo, onUndo, onRedo, onRevertEdit }) => {
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-lg">Change Log</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={edits.length === 0}
+            className="px-3 py-1 bg-slate-700 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="px-3 py-1 bg-slate-700 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      {edits.length === 0 ? (
+        <p className="text-sm text-slate-500">No changes yet.</p>
+      ) : (
+        <ol className="max-h-48 overflow-y-auto pr-2 space-y-2">
+          {edits.map((edit, i) => (
+            <li key={edit.id} className="p-2 bg-slate-900 rounded-lg text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-slate-300">
+                  {i + 1}. Page {edit.page}, QR Code #{edit.index + 1}
+                  {edit.verification === 'verified' && <span className="ml-2 text-xs text-green-400">✓ Verified</span>}
+                </span>
+                <button onClick={() => onRevertEdit(edit.id)} className="text-xs text-red-400 hover:text-red-300">
+                  Revert
+                </button>
+              </div>
+              {edit.inserted ? (
+                <p className="text-slate-500">Added a new code</p>
+              ) : (
+                <p className="text-slate-500 line-through break-words truncate">{edit.oldText || '(unreadable code)'}</p>
+              )}
+              <p className="text-cyan-400 break-words truncate">{edit.newText}</p>
+              {edit.options?.generation && (
+                <p className="flex items-center gap-1 text-xs text-slate-500 mt-1">
+                  <span className="inline-block w-3 h-3 rounded-sm border border-slate-600" style={{ background: edit.options.generation.darkColor }} />
+                  <span className="inline-block w-3 h-3 rounded-sm border border-slate-600" style={{ background: edit.options.generation.lightColor }} />
+                  EC {edit.options.generation.errorCorrectionLevel}, quiet zone {edit.options.generation.margin}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      {failedEdits.length > 0 && (
+        <div className="mt-2">
+          <div className="flex items-center justify-between mb-1">
+            <h4 className="text-sm font-semibold text-red-400">Failed verification (rolled back)</h4>
+            <button onClick={onClearFailedEdits} className="text-xs text-slate-400 hover:text-slate-200">
+              Dismiss
+            </button>
+          </div>
+          <ul className="max-h-32 overflow-y-auto pr-2 space-y-2">
+            {failedEdits.map(edit => (
+              <li key={edit.id} className="p-2 bg-slate-900 rounded-lg text-sm border border-red-900">
+                <span className="font-semibold text-slate-300">Page {edit.page}, QR Code #{edit.index + 1}</span>
+                <p className="text-red-300 break-words truncate">{edit.newText}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
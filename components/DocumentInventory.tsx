@@ -0,0 +1,78 @@
+import React from 'react';
+import { DetectedQrCode } from '../types';
+import { ScanProgress } from '../services/fileProcessor';
+
+interface DocumentInventoryProps {
+  inventory: DetectedQrCode[] | null;
+  scanProgress: ScanProgress | null;
+  currentPage: number;
+  onScan: () => void;
+  onCancelScan: () => void;
+  onInventorySelect: (qrCode: DetectedQrCode) => void;
+}
+
+export const DocumentInventory: React.FC<DocumentInventoryProps> = ({
+  inventory,
+  scanProgress,
+  currentPage,
+  onScan,
+  onCancelScan,
+  onInventorySelect,
+}) => {
+  const codesByPage = new Map<number, DetectedQrCode[]>();
+  inventory?.forEach(qr => {
+    const page = qr.page ?? 1;
+    codesByPage.set(page, [...(codesByPage.get(page) || []), qr]);
+  });
+
+  return (
+    <div className="mb-4 pb-4 border-b border-slate-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-lg">All Pages</h3>
+        {scanProgress ? (
+          <button onClick={onCancelScan} className="px-3 py-1 bg-red-700 rounded text-sm hover:bg-red-600">
+            Cancel
+          </button>
+        ) : (
+          <button onClick={onScan} className="px-3 py-1 bg-slate-700 rounded text-sm hover:bg-slate-600">
+            {inventory ? 'Rescan Document' : 'Scan All Pages'}
+          </button>
+        )}
+      </div>
+      {scanProgress && (
+        <div>
+          <div className="w-full h-2 bg-slate-900 rounded">
+            <div
+              className="h-2 bg-cyan-500 rounded transition-all"
+              style={{ width: `${(scanProgress.current / scanProgress.total) * 100}%` }}
+            />
+          </div>
+          <p className="text-xs text-slate-400 mt-1">Scanning page {scanProgress.current} of {scanProgress.total}...</p>
+        </div>
+      )}
+      {!scanProgress && inventory && (
+        inventory.length === 0 ? (
+          <p className="text-sm text-slate-500">No QR codes found in this document.</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto pr-2">
+            <p className="text-xs text-slate-400 mb-2">{inventory.length} QR codes across {codesByPage.size} pages</p>
+            {[...codesByPage.entries()].map(([page, codes]) => (
+              <div key={page} className="mb-2">
+                <p className={`text-sm font-semibold ${page === currentPage ? 'text-cyan-400' : 'text-slate-300'}`}>Page {page}</p>
+                {codes.map((qr, index) => (
+                  <button
+                    key={qr.id}
+                    onClick={() => onInventorySelect(qr)}
+                    className="block w-full text-left text-sm text-slate-400 hover:text-cyan-300 truncate pl-2"
+                  >
+                    #{index + 1} {qr.data}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,49 +1,306 @@
-import React, { useEffect, RefObject } from 'react';
-import { DetectedQrCode, FileType } from '../types';
+import React, { useEffect, useLayoutEffect, useRef, useState, RefObject } from 'react';
+import { DetectedQrCode, QrPlacement } from '../types';
+import { CompareView, PageComparison } from './PageComparison';
+import { findQrCodeAt, getPlacementCorners, getPolygonCenter, getQrCorners, orderQuadCorners, Point } from '../utils/helpers';
+
+// 'rectangle' drags out an axis-aligned box; 'corners' places four points, for
+// codes that are rotated or photographed at an angle.
+type MarkMode = 'rectangle' | 'corners';
+
+// Drags smaller than this many canvas pixels are treated as stray clicks.
+const MIN_MARKED_SIZE = 8;
+
+// Zoom is in screen pixels per canvas pixel, so 1 shows the render at 100%.
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// Mouse travel, in screen pixels, that turns a click into a pan.
+const PAN_THRESHOLD = 4;
+// Zooming to a code sizes it to this share of the viewport.
+const FOCUSED_CODE_SHARE = 0.4;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+interface ZoomAnchor {
+  // Canvas point to keep under the given screen position once the zoom is applied.
+  point: Point;
+  clientX: number;
+  clientY: number;
+}
+
+interface PanState {
+  clientX: number;
+  clientY: number;
+  scrollLeft: number;
+  scrollTop: number;
+  moved: boolean;
+}
+
+// The square dragged from `start` towards `end`; QR codes are always square.
+function squareBetween(start: Point, end: Point): QrPlacement {
+  const size = Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+  return {
+    x: end.x < start.x ? start.x - size : start.x,
+    y: end.y < start.y ? start.y - size : start.y,
+    size,
+  };
+}
 
 interface DocumentViewerProps {
   fileDataUrl: string | null;
   qrCodes: DetectedQrCode[];
   selectedQrId: string | null;
   onQrSelect: (id: string) => void;
+  // Latest payload per code, shown when hovering it.
+  editedQrCodes: Map<string, string>;
   canvasRef: RefObject<HTMLCanvasElement>;
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
-  fileType: FileType;
+  // Called with the four corners of a hand-marked region, in getQrCorners order.
+  onRegionMarked: (corners: Point[]) => void;
+  canMarkRegion: boolean;
+  // While non-null, dragging on the page places a new code instead.
+  insertPlacement: QrPlacement | null;
+  onInsertPlacementChange: (placement: QrPlacement) => void;
+  // Non-null shows the current page against the original upload instead of the editable canvas.
+  compareView: CompareView | null;
+  onCompareViewChange: (view: CompareView | null) => void;
+  originalDataUrl: string | null;
+  canCompare: boolean;
 }
 
+const COMPARE_VIEWS: [CompareView, string][] = [
+  ['sideBySide', 'Side by Side'],
+  ['slider', 'Slider'],
+  ['diff', 'Differences'],
+];
+
 export const DocumentViewer: React.FC<DocumentViewerProps> = ({
   fileDataUrl,
   qrCodes,
   selectedQrId,
   onQrSelect,
+  editedQrCodes,
   canvasRef,
   currentPage,
   totalPages,
   onPageChange,
-  fileType,
+  onRegionMarked,
+  canMarkRegion,
+  insertPlacement,
+  onInsertPlacementChange,
+  compareView,
+  onCompareViewChange,
+  originalDataUrl,
+  canCompare,
 }) => {
+  const [pageImage, setPageImage] = useState<HTMLImageElement | null>(null);
+  const [markMode, setMarkMode] = useState<MarkMode | null>(null);
+  // Rectangle: the drag's start and current point. Corners: the points placed so far.
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  // null fits the whole page in view.
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<{ qr: DetectedQrCode, clientX: number, clientY: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const zoomAnchorRef = useRef<ZoomAnchor | null>(null);
+  // Mirrors `zoom` for the native listeners, which only see the first render.
+  const zoomRef = useRef<number | null>(null);
+  const panRef = useRef<PanState | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const isInserting = insertPlacement !== null;
+  const isDragTool = markMode === 'rectangle' || isInserting;
 
+  useEffect(() => {
+    if (!fileDataUrl) return;
+    const img = new Image();
+    img.src = fileDataUrl;
+    img.onload = () => setPageImage(img);
+    img.onerror = () => {
+        console.error("Failed to load image for canvas.");
+    }
+  }, [fileDataUrl]);
+
+  // The page image is kept loaded so outlines and the region being marked can
+  // be redrawn on every mouse move without decoding the data URL again.
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !fileDataUrl) return;
+    if (!canvas || !pageImage) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    
-    const img = new Image();
-    img.src = fileDataUrl;
-    img.onload = () => {
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx.drawImage(img, 0, 0);
-      drawQrCodeOutlines(ctx, qrCodes, selectedQrId);
+
+    canvas.width = pageImage.width;
+    canvas.height = pageImage.height;
+    ctx.drawImage(pageImage, 0, 0);
+    drawQrCodeOutlines(ctx, qrCodes, selectedQrId);
+    drawDraftRegion(ctx);
+  }, [pageImage, qrCodes, selectedQrId, canvasRef, markMode, draftPoints, cursor, insertPlacement]);
+
+  useEffect(() => {
+    cancelMarking();
+  }, [currentPage, fileDataUrl]);
+
+  useEffect(() => {
+    if (!canMarkRegion || isInserting || compareView) cancelMarking();
+  }, [canMarkRegion, isInserting, compareView]);
+
+  // Zoom changes resize the canvas; scrolling afterwards keeps the anchored point
+  // where it was on screen, so zooming follows the cursor or pinch.
+  const scrollToAnchor = () => {
+    const anchor = zoomAnchorRef.current;
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    zoomAnchorRef.current = null;
+    if (!anchor || !canvas || !container || !canvas.width) return;
+    const rect = canvas.getBoundingClientRect();
+    container.scrollLeft += rect.left + (anchor.point.x * rect.width) / canvas.width - anchor.clientX;
+    container.scrollTop += rect.top + (anchor.point.y * rect.height) / canvas.height - anchor.clientY;
+  };
+
+  useLayoutEffect(() => {
+    zoomRef.current = zoom;
+    scrollToAnchor();
+  }, [zoom]);
+
+  const getEffectiveZoom = (): number => {
+    const canvas = canvasRef.current;
+    if (!canvas || !canvas.width) return 1;
+    return canvas.getBoundingClientRect().width / canvas.width;
+  };
+
+  const getViewportCenter = () => {
+    const container = containerRef.current!;
+    const box = container.getBoundingClientRect();
+    return { clientX: box.left + container.clientWidth / 2, clientY: box.top + container.clientHeight / 2 };
+  };
+
+  // Only touches refs and setters, so the native listeners below can hold on to it.
+  const zoomTo = (next: number | null, anchor?: { clientX: number, clientY: number }, point?: Point) => {
+    if (!canvasRef.current || !containerRef.current) return;
+    if (next === null) {
+      setZoom(null);
+      return;
+    }
+    const { clientX, clientY } = anchor ?? getViewportCenter();
+    zoomAnchorRef.current = { point: point ?? clientToCanvasPoint(clientX, clientY), clientX, clientY };
+    const clamped = clampZoom(next);
+    // An unchanged zoom won't re-run the layout effect, so scroll right away.
+    if (zoomRef.current === clamped) scrollToAnchor();
+    setZoom(clamped);
+  };
+
+  const zoomToCode = (qr: DetectedQrCode) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const corners = getQrCorners(qr.location);
+    const width = Math.max(...corners.map(p => p.x)) - Math.min(...corners.map(p => p.x));
+    const height = Math.max(...corners.map(p => p.y)) - Math.min(...corners.map(p => p.y));
+    const fit = (Math.min(container.clientWidth, container.clientHeight) * FOCUSED_CODE_SHARE) / Math.max(width, height, 1);
+    zoomTo(fit, getViewportCenter(), getPolygonCenter(corners));
+  };
+
+  const fitWidth = () => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (canvas?.width && container) zoomTo(container.clientWidth / canvas.width);
+  };
+
+  // Wheel and touch listeners are attached natively: React's are passive and
+  // can't stop the browser from zooming the whole page instead.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const onWheel = (e: WheelEvent) => {
+      // Trackpad pinches arrive as wheel events with ctrlKey set; a plain wheel scrolls.
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomTo(getEffectiveZoom() * Math.exp(-e.deltaY * 0.002), e);
     };
-    img.onerror = () => {
-        console.error("Failed to load image for canvas.");
+
+    let pinch: { distance: number, zoom: number } | null = null;
+    const touchDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+    const onTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) pinch = { distance: touchDistance(e.touches), zoom: getEffectiveZoom() };
+    };
+    const onTouchMove = (e: TouchEvent) => {
+      if (!pinch || e.touches.length !== 2) return;
+      e.preventDefault();
+      zoomTo(pinch.zoom * (touchDistance(e.touches) / pinch.distance), {
+        clientX: (e.touches[0].clientX + e.touches[1].clientX) / 2,
+        clientY: (e.touches[0].clientY + e.touches[1].clientY) / 2,
+      });
+    };
+    const onTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinch = null;
+    };
+
+    container.addEventListener('wheel', onWheel, { passive: false });
+    container.addEventListener('touchstart', onTouchStart);
+    container.addEventListener('touchmove', onTouchMove, { passive: false });
+    container.addEventListener('touchend', onTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', onWheel);
+      container.removeEventListener('touchstart', onTouchStart);
+      container.removeEventListener('touchmove', onTouchMove);
+      container.removeEventListener('touchend', onTouchEnd);
+    };
+  }, []);
+
+  const cancelMarking = () => {
+    setMarkMode(null);
+    setDraftPoints([]);
+    setCursor(null);
+  };
+
+  const finishMarking = (corners: Point[]) => {
+    cancelMarking();
+    onRegionMarked(corners);
+  };
+
+  const getDraftOutline = (): Point[] => {
+    if (isInserting) {
+      const [start] = draftPoints;
+      if (start && cursor) return getPlacementCorners(squareBetween(start, cursor));
+      return getPlacementCorners(insertPlacement);
+    }
+    if (markMode === 'rectangle') {
+      const [start] = draftPoints;
+      if (!start || !cursor) return [];
+      return [start, { x: cursor.x, y: start.y }, cursor, { x: start.x, y: cursor.y }];
+    }
+    return cursor ? [...draftPoints, cursor] : draftPoints;
+  };
+
+  const drawDraftRegion = (ctx: CanvasRenderingContext2D) => {
+    if (!markMode && !isInserting) return;
+    const outline = getDraftOutline();
+    if (outline.length === 0) return;
+
+    ctx.beginPath();
+    outline.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.closePath();
+    ctx.setLineDash([12, 8]);
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = isInserting ? 'rgb(234 179 8)' : 'rgb(6 182 212)';
+    ctx.fillStyle = isInserting ? 'rgba(234, 179, 8, 0.15)' : 'rgba(6, 182, 212, 0.15)';
+    ctx.stroke();
+    ctx.fill();
+    ctx.setLineDash([]);
+
+    if (markMode === 'corners') {
+      ctx.fillStyle = 'rgb(6 182 212)';
+      draftPoints.forEach(point => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 8, 0, Math.PI * 2);
+        ctx.fill();
+      });
     }
-  }, [fileDataUrl, qrCodes, selectedQrId, canvasRef]);
+  };
 
   const drawQrCodeOutlines = (
     ctx: CanvasRenderingContext2D,
@@ -72,36 +329,119 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
     });
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
+  function clientToCanvasPoint(clientX: number, clientY: number): Point {
+    const canvas = canvasRef.current!;
     const rect = canvas.getBoundingClientRect();
     const scaleX = canvas.width / rect.width;
     const scaleY = canvas.height / rect.height;
-    
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
-
-    // Find if a QR code was clicked
-    const clickedQr = qrCodes.find(qr => {
-        // Fix: Use correct corner property names from the 'jsqr' location object.
-        const {topLeftCorner: topLeft, topRightCorner: topRight, bottomLeftCorner: bottomLeft, bottomRightCorner: bottomRight} = qr.location;
-        // Simple bounding box check
-        const minX = Math.min(topLeft.x, topRight.x, bottomLeft.x, bottomRight.x);
-        const maxX = Math.max(topLeft.x, topRight.x, bottomLeft.x, bottomRight.x);
-        const minY = Math.min(topLeft.y, topRight.y, bottomLeft.y, bottomRight.y);
-        const maxY = Math.max(topLeft.y, topRight.y, bottomLeft.y, bottomRight.y);
-        return x >= minX && x <= maxX && y >= minY && y <= maxY;
-    });
+    return { x: (clientX - rect.left) * scaleX, y: (clientY - rect.top) * scaleY };
+  }
 
-    if (clickedQr) {
+  const toCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>): Point | null => {
+    if (!canvasRef.current) return null;
+    return clientToCanvasPoint(e.clientX, e.clientY);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    if (!point || e.button !== 0) return;
+    if (!isDragTool) {
+      const container = containerRef.current;
+      if (container) {
+        panRef.current = { clientX: e.clientX, clientY: e.clientY, scrollLeft: container.scrollLeft, scrollTop: container.scrollTop, moved: false };
+      }
+      return;
+    }
+    setDraftPoints([point]);
+    setCursor(point);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const pan = panRef.current;
+    const container = containerRef.current;
+    if (pan && container) {
+      const dx = e.clientX - pan.clientX;
+      const dy = e.clientY - pan.clientY;
+      pan.moved ||= Math.hypot(dx, dy) > PAN_THRESHOLD;
+      if (pan.moved) {
+        container.scrollLeft = pan.scrollLeft - dx;
+        container.scrollTop = pan.scrollTop - dy;
+        setHovered(null);
+        return;
+      }
+    }
+
+    if (!markMode && !isInserting) {
+      const point = toCanvasPoint(e);
+      const qr = point && findQrCodeAt(point, qrCodes);
+      setHovered(qr ? { qr, clientX: e.clientX, clientY: e.clientY } : null);
+      return;
+    }
+    // A drag only follows the cursor while the button is held.
+    if (isDragTool && draftPoints.length === 0) return;
+    setCursor(toCanvasPoint(e));
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (panRef.current) {
+      // The click that follows a pan must not select a code.
+      suppressClickRef.current = panRef.current.moved;
+      panRef.current = null;
+      return;
+    }
+    const [start] = draftPoints;
+    const end = toCanvasPoint(e);
+    if (!isDragTool || !start || !end) return;
+    if (isInserting) {
+      const square = squareBetween(start, end);
+      setDraftPoints([]);
+      setCursor(null);
+      if (square.size >= MIN_MARKED_SIZE) onInsertPlacementChange(square);
+      return;
+    }
+    if (Math.abs(end.x - start.x) < MIN_MARKED_SIZE || Math.abs(end.y - start.y) < MIN_MARKED_SIZE) {
+      setDraftPoints([]);
+      setCursor(null);
+      return;
+    }
+    finishMarking(orderQuadCorners([start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }]));
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (!point || isDragTool) return;
+
+    if (markMode === 'corners') {
+      const points = [...draftPoints, point];
+      if (points.length === 4) {
+        finishMarking(orderQuadCorners(points));
+      } else {
+        setDraftPoints(points);
+      }
+      return;
+    }
+
+    // Find if a QR code was clicked; clicking the selected one again zooms to it.
+    const clickedQr = findQrCodeAt(point, qrCodes);
+    if (clickedQr?.id === selectedQrId) {
+        zoomToCode(clickedQr);
+    } else if (clickedQr) {
         onQrSelect(clickedQr.id);
     }
   };
 
+  const handleMouseLeave = () => {
+    panRef.current = null;
+    setHovered(null);
+    if (markMode === 'corners') setCursor(null);
+  };
+
   const Pagination = () => {
-    if (fileType !== 'pdf' || totalPages <= 1) return null;
+    if (totalPages <= 1) return null;
     return (
       <div className="flex items-center justify-center gap-2 mt-4">
         <button
@@ -123,11 +463,101 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({
     );
   };
   
+  const markModeButton = (mode: MarkMode, label: string) => (
+    <button
+      onClick={() => {
+        const next = markMode === mode ? null : mode;
+        cancelMarking();
+        setMarkMode(next);
+      }}
+      disabled={!canMarkRegion || isInserting}
+      className={`px-3 py-1 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+        markMode === mode ? 'bg-cyan-600 hover:bg-cyan-700 text-white' : 'bg-slate-700 hover:bg-slate-600'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const selectedQr = qrCodes.find(qr => qr.id === selectedQrId);
+  const zoomButtonClasses = 'px-2 py-1 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed';
+  const canvasCursor = markMode || isInserting ? 'cursor-crosshair' : hovered ? 'cursor-pointer' : zoom !== null ? 'cursor-grab' : '';
+
+  const markingHint = markMode === 'rectangle'
+    ? 'Drag a box around the QR code.'
+    : markMode === 'corners'
+      ? `Click the code's four corners (${draftPoints.length} of 4 placed).`
+      : null;
+
+  const compareButton = (view: CompareView | null, label: string) => (
+    <button
+      key={label}
+      onClick={() => onCompareViewChange(view)}
+      disabled={view !== null && !canCompare}
+      className={`px-3 py-1 rounded text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+        compareView === view ? 'bg-cyan-600 hover:bg-cyan-700 text-white' : 'bg-slate-700 hover:bg-slate-600'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
   return (
     <>
-        <div className="w-full h-full flex items-center justify-center overflow-auto">
-            <canvas ref={canvasRef} className="max-w-full max-h-full object-contain rounded-md" onClick={handleCanvasClick} />
+        <div className="w-full flex flex-wrap items-center justify-center gap-2 mb-3 text-sm">
+            <span className="text-slate-400">Compare with original:</span>
+            {compareButton(null, 'Off')}
+            {COMPARE_VIEWS.map(([view, label]) => compareButton(view, label))}
+        </div>
+        {compareView && fileDataUrl && (
+          <PageComparison view={compareView} originalDataUrl={originalDataUrl} modifiedDataUrl={fileDataUrl} />
+        )}
+        <div className={`w-full flex flex-wrap items-center justify-center gap-2 mb-3 text-sm ${compareView ? 'hidden' : ''}`}>
+            <span className="text-slate-400">Missing a code? Mark it by hand:</span>
+            {markModeButton('rectangle', 'Drag Rectangle')}
+            {markModeButton('corners', 'Place 4 Corners')}
+            {markingHint && (
+              <>
+                <span className="text-cyan-400">{markingHint}</span>
+                <button onClick={cancelMarking} className="px-3 py-1 bg-slate-700 rounded hover:bg-slate-600">Cancel</button>
+              </>
+            )}
+            {isInserting && <span className="text-yellow-400">Drag a square where the new QR code should go.</span>}
+        </div>
+        <div className={`w-full flex flex-wrap items-center justify-center gap-2 mb-3 text-sm ${compareView ? 'hidden' : ''}`}>
+            <button onClick={() => zoomTo(getEffectiveZoom() / ZOOM_STEP)} className={zoomButtonClasses} title="Zoom out">&minus;</button>
+            <span className="w-14 text-center text-slate-400">{zoom === null ? 'Fit' : `${Math.round(zoom * 100)}%`}</span>
+            <button onClick={() => zoomTo(getEffectiveZoom() * ZOOM_STEP)} className={zoomButtonClasses} title="Zoom in">+</button>
+            <button onClick={() => zoomTo(null)} className={zoomButtonClasses}>Fit Page</button>
+            <button onClick={fitWidth} className={zoomButtonClasses}>Fit Width</button>
+            <button onClick={() => zoomTo(1)} className={zoomButtonClasses}>100%</button>
+            <button onClick={() => selectedQr && zoomToCode(selectedQr)} disabled={!selectedQr} className={zoomButtonClasses}>
+              Zoom to Selected
+            </button>
+        </div>
+        {/* m-auto rather than flex centering, so a zoomed page can scroll to its top-left edge.
+            Hidden rather than unmounted while comparing, since the app reads the canvas. */}
+        <div ref={containerRef} className={`w-full h-[70vh] flex overflow-auto ${compareView ? 'hidden' : ''}`}>
+            <canvas
+              ref={canvasRef}
+              className={`m-auto rounded-md ${zoom === null ? 'max-w-full max-h-full object-contain' : 'max-w-none'} ${canvasCursor}`}
+              style={zoom === null || !pageImage ? undefined : { width: pageImage.width * zoom, height: pageImage.height * zoom }}
+              onClick={handleCanvasClick}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
+            />
         </div>
+        {hovered && (
+          <div
+            className="fixed z-30 pointer-events-none max-w-xs px-2 py-1 bg-slate-950/90 border border-slate-600 rounded shadow-lg text-xs break-words"
+            style={{ left: hovered.clientX + 14, top: hovered.clientY + 14 }}
+          >
+            <p className="font-semibold text-slate-300">QR Code #{qrCodes.indexOf(hovered.qr) + 1}</p>
+            <p className="text-cyan-400">{editedQrCodes.get(hovered.qr.id) || hovered.qr.data || '(unreadable)'}</p>
+          </div>
+        )}
         <Pagination />
     </>
   );
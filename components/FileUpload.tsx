@@ -1,22 +1,42 @@
 
 import React, { useState, useCallback } from 'react';
 import { UploadIcon } from './icons/UploadIcon';
+import { identifyFile } from '../services/imageFormats';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
+// Files are recognised by their contents, so a missing or wrong extension doesn't matter.
+const identifyFiles = async (files: File[]) => (await Promise.all(files.map(identifyFile))).filter((file): file is File => file !== null);
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onFilesSelect }) => {
   const [isDragging, setIsDragging] = useState(false);
 
-  const handleFile = useCallback((file: File | null | undefined) => {
-    if (file && (file.type === 'application/pdf' || file.type.startsWith('image/'))) {
-      onFileSelect(file);
+  const handleFile = useCallback(async (file: File | null | undefined) => {
+    const identified = file && await identifyFile(file);
+    if (identified) {
+      onFileSelect(identified);
     } else {
-      alert('Please upload a valid PDF, PNG, JPG, or JPEG file.');
+      alert('Please upload a valid PDF, PNG, JPG, WebP, TIFF, or SVG file.');
     }
   }, [onFileSelect]);
 
+  // More than one file switches to batch mode when the parent supports it.
+  const handleFiles = useCallback(async (fileList: FileList) => {
+    if (fileList.length === 1 || !onFilesSelect) {
+      handleFile(fileList[0]);
+      return;
+    }
+    const files = await identifyFiles(Array.from(fileList));
+    if (files.length === 0) {
+      alert('Please upload valid PDF, PNG, JPG, WebP, TIFF, or SVG files.');
+      return;
+    }
+    onFilesSelect(files);
+  }, [handleFile, onFilesSelect]);
+
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -39,7 +59,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
     e.stopPropagation();
     setIsDragging(false);
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFile(e.dataTransfer.files[0]);
+      handleFiles(e.dataTransfer.files);
     }
   };
   
@@ -49,7 +69,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      handleFile(e.target.files[0]);
+      handleFiles(e.target.files);
     }
   };
 
@@ -72,7 +92,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
       <input 
         id="file-input"
         type="file"
-        accept=".pdf, .png, .jpg, .jpeg"
+        accept=".pdf, .png, .jpg, .jpeg, .webp, .tif, .tiff, .svg"
+        multiple={!!onFilesSelect}
         className="hidden"
         onChange={handleInputChange}
       />
@@ -81,7 +102,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect }) => {
         Drag & Drop Your File Here
       </h2>
       <p className="text-slate-400 mt-2">or click to browse</p>
-      <p className="text-xs text-slate-500 mt-4">Supports PDF, PNG, JPG, JPEG</p>
+      <p className="text-xs text-slate-500 mt-4">Supports PDF, PNG, JPG, JPEG, WebP, multi-page TIFF and SVG</p>
+      {onFilesSelect && <p className="text-xs text-slate-500 mt-1">Select several files at once for batch mode</p>}
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { QrPlacement } from '../types';
+import { RENDER_SCALE } from '../services/fileProcessor';
+import { FileFormat } from '../services/imageFormats';
+import { SVG_RENDER_SCALE } from '../services/svgDocument';
+import { detectPayloadFormat } from '../utils/payloadFormats';
+import { PayloadForm } from './PayloadForm';
+
+interface InsertQrPanelProps {
+  placement: QrPlacement;
+  onPlacementChange: (placement: QrPlacement) => void;
+  // Size of the rendered page, in the same canvas pixels as `placement`.
+  pageWidth: number;
+  pageHeight: number;
+  fileFormat: FileFormat | null;
+  onInsert: (text: string) => void;
+  onCancel: () => void;
+}
+
+const inputClasses = 'w-full p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none';
+
+export const InsertQrPanel: React.FC<InsertQrPanelProps> = ({
+  placement,
+  onPlacementChange,
+  pageWidth,
+  pageHeight,
+  fileFormat,
+  onInsert,
+  onCancel,
+}) => {
+  const [text, setText] = useState('');
+  const payloadFormat = detectPayloadFormat(text);
+
+  // PDFs are positioned in points, SVGs in CSS pixels and other images in their
+  // own pixels; all measured from the top-left.
+  const unitScale = fileFormat === 'pdf' ? RENDER_SCALE : fileFormat === 'svg' ? SVG_RENDER_SCALE : 1;
+  const unit = fileFormat === 'pdf' ? 'pt' : 'px';
+
+  const fitsOnPage = placement.size > 0 && placement.x >= 0 && placement.y >= 0
+    && placement.x + placement.size <= pageWidth && placement.y + placement.size <= pageHeight;
+  const payloadValid = !payloadFormat || Object.keys(payloadFormat.validate(payloadFormat.parse(text))).length === 0;
+
+  const updatePlacement = (key: keyof QrPlacement, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isNaN(parsed)) {
+      onPlacementChange({ ...placement, [key]: parsed * unitScale });
+    }
+  };
+
+  const field = (key: keyof QrPlacement, label: string) => (
+    <label className="flex-1">
+      <span className="block text-xs text-slate-400">{label} ({unit})</span>
+      <input
+        type="number"
+        min={0}
+        value={Math.round(placement[key] / unitScale)}
+        onChange={(e) => updatePlacement(key, e.target.value)}
+        className={inputClasses}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700">
+      <h3 className="font-bold text-lg mb-1">Add a New QR Code</h3>
+      <p className="text-sm text-slate-400 mb-2">Drag a square on the page, or type its top-left corner and size. The size includes the quiet zone.</p>
+      <div className="flex gap-2 mb-2 text-sm">
+        {field('x', 'X')}
+        {field('y', 'Y')}
+        {field('size', 'Size')}
+      </div>
+      {!fitsOnPage && <p className="text-red-400 text-sm mb-2">The code must fit on the page.</p>}
+      {payloadFormat && <PayloadForm format={payloadFormat} text={text} onChange={setText} />}
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Content of the new QR code"
+        className="w-full p-2 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none"
+        rows={3}
+      />
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={() => onInsert(text.trim())}
+          disabled={!text.trim() || !fitsOnPage || !payloadValid}
+          className="flex-1 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+        >
+          Add QR Code
+        </button>
+        <button onClick={onCancel} className="px-4 py-2 bg-slate-700 rounded-lg hover:bg-slate-600">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { diffPages, PageDiff } from '../services/pageDiff';
+import { Spinner } from './Spinner';
+
+export type CompareView = 'sideBySide' | 'slider' | 'diff';
+
+interface PageComparisonProps {
+  view: CompareView;
+  // Null while the original page is still rendering.
+  originalDataUrl: string | null;
+  modifiedDataUrl: string;
+}
+
+const imageClasses = 'max-w-full max-h-full object-contain rounded-md';
+
+export const PageComparison: React.FC<PageComparisonProps> = ({ view, originalDataUrl, modifiedDataUrl }) => {
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [diff, setDiff] = useState<PageDiff | null>(null);
+
+  useEffect(() => {
+    setDiff(null);
+    if (view !== 'diff' || !originalDataUrl) return;
+    let cancelled = false;
+    diffPages(originalDataUrl, modifiedDataUrl)
+      .then(result => !cancelled && setDiff(result))
+      .catch(error => console.error("Failed to compare pages:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [view, originalDataUrl, modifiedDataUrl]);
+
+  if (!originalDataUrl || (view === 'diff' && !diff)) {
+    return (
+      <div className="w-full h-[70vh] flex flex-col items-center justify-center text-slate-400">
+        <Spinner />
+        <p className="mt-4">{originalDataUrl ? 'Comparing pages...' : 'Rendering the original page...'}</p>
+      </div>
+    );
+  }
+
+  if (view === 'sideBySide') {
+    return (
+      <div className="w-full h-[70vh] grid grid-cols-2 gap-2">
+        {[['Original', originalDataUrl], ['Modified', modifiedDataUrl]].map(([label, src]) => (
+          <figure key={label} className="flex flex-col min-h-0">
+            <figcaption className="text-center text-sm text-slate-400 mb-1">{label}</figcaption>
+            <div className="flex-grow min-h-0 flex">
+              <img src={src} alt={`${label} page`} className={`m-auto ${imageClasses}`} />
+            </div>
+          </figure>
+        ))}
+      </div>
+    );
+  }
+
+  if (view === 'slider') {
+    return (
+      <div className="w-full h-[70vh] flex flex-col">
+        <div className="flex-grow min-h-0 flex">
+          {/* Both renders share one box; the modified one is clipped to the right of the slider. */}
+          <div className="relative m-auto max-w-full max-h-full">
+            {/* An explicit height cap: percentages don't resolve inside this auto-sized box. */}
+            <img src={originalDataUrl} alt="Original page" className="block max-w-full max-h-[64vh] rounded-md" />
+            <img
+              src={modifiedDataUrl}
+              alt="Modified page"
+              className="absolute inset-0 w-full h-full rounded-md"
+              style={{ clipPath: `inset(0 0 0 ${sliderPosition}%)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-cyan-400 pointer-events-none" style={{ left: `${sliderPosition}%` }} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2 mt-2 text-sm text-slate-400">
+          <span>Original</span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={sliderPosition}
+            onChange={(e) => setSliderPosition(Number(e.target.value))}
+            className="flex-grow"
+          />
+          <span>Modified</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-[70vh] flex flex-col">
+      <p className="text-center text-sm mb-1 text-slate-400">
+        {diff!.regions.length === 0
+          ? 'No visible differences on this page.'
+          : `${diff!.regions.length} changed area${diff!.regions.length === 1 ? '' : 's'}, ${diff!.changedPixels.toLocaleString()} pixels differ.`}
+      </p>
+      <div className="flex-grow min-h-0 flex">
+        <img src={diff!.dataUrl} alt="Differences between the original and modified page" className={`m-auto ${imageClasses}`} />
+      </div>
+    </div>
+  );
+};
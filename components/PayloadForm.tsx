@@ -0,0 +1,73 @@
+import React from 'react';
+import { PayloadFormat } from '../utils/payloadFormats';
+
+interface PayloadFormProps {
+  format: PayloadFormat;
+  text: string;
+  onChange: (text: string) => void;
+}
+
+const inputClasses = 'w-full p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none';
+
+export const PayloadForm: React.FC<PayloadFormProps> = ({ format, text, onChange }) => {
+  // The raw text stays the source of truth; the form is a view over it.
+  const values = format.parse(text);
+  const errors = format.validate(values);
+
+  const updateField = (key: string, value: string) => onChange(format.serialize({ ...values, [key]: value }, text));
+
+  return (
+    <div className="mb-2 p-2 bg-slate-900/60 rounded-md text-sm text-slate-300">
+      <p className="text-xs uppercase tracking-wide text-slate-400 mb-1">{format.label}</p>
+      {format.fields.map(field => (
+        <div key={field.key} className="mb-2">
+          {field.input === 'checkbox' ? (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={values[field.key] === 'true'}
+                onChange={(e) => updateField(field.key, e.target.checked ? 'true' : '')}
+              />
+              {field.label}
+            </label>
+          ) : (
+            <label className="block">
+              {field.label}
+              {field.input === 'select' ? (
+                <select
+                  value={values[field.key] ?? ''}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  className={inputClasses}
+                >
+                  <option value="">—</option>
+                  {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                  {/* A value the form doesn't offer is shown rather than hidden behind "—". */}
+                  {values[field.key] && !field.options?.includes(values[field.key]) && (
+                    <option value={values[field.key]}>{values[field.key]}</option>
+                  )}
+                </select>
+              ) : field.input === 'textarea' ? (
+                <textarea
+                  value={values[field.key] ?? ''}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  className={`${inputClasses} resize-none`}
+                  rows={2}
+                />
+              ) : (
+                <input
+                  type={field.input}
+                  value={values[field.key] ?? ''}
+                  step={field.input === 'number' ? 'any' : undefined}
+                  placeholder={field.placeholder}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                  className={inputClasses}
+                />
+              )}
+            </label>
+          )}
+          {errors[field.key] && <p className="text-red-400 text-xs mt-1">{errors[field.key]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,9 +1,34 @@
 
-import React, { useState, useEffect } from 'react';
-import { DetectedQrCode } from '../types';
-import { isValidUrl } from '../utils/helpers';
+import React, { useState, useEffect, useMemo } from 'react';
+import { DetectedQrCode, DetectionStrategy, FileType, QrEdit, QrPlacement, QrReplaceOptions } from '../types';
+import { getModifiedFilename, isValidUrl } from '../utils/helpers';
 import { QrCodeIcon } from './icons/QrCodeIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
+import { ChangeLog } from './ChangeLog';
+import { DocumentInventory } from './DocumentInventory';
+import { BulkReplacePanel } from './BulkReplacePanel';
+import { ReplaceOptionsPanel } from './ReplaceOptionsPanel';
+import { PayloadForm } from './PayloadForm';
+import { InsertQrPanel } from './InsertQrPanel';
+import { AuditReportFormat, AuditReportPanel } from './AuditReportPanel';
+import { TemplatesPanel } from './TemplatesPanel';
+import { EditTemplate, findTemplateMatches } from '../utils/editTemplates';
+import { BulkReplaceMatch } from '../utils/bulkReplace';
+import { detectPayloadFormat } from '../utils/payloadFormats';
+import { ScanProgress } from '../services/fileProcessor';
+import { isLinkablePayload } from '../services/pdfLinkAnnotations';
+import { FileFormat } from '../services/imageFormats';
+import { PdfSecurity } from '../services/pdfSecurity';
+
+const DETECTION_STRATEGY_LABELS: Record<DetectionStrategy, string> = {
+  direct: 'Direct',
+  contrast: 'Contrast stretch',
+  adaptiveThreshold: 'Adaptive threshold',
+  inverted: 'Inverted',
+  upscaled: 'Upscaled',
+  downscaled: 'Downscaled',
+  manual: 'Marked by hand',
+};
 
 interface QrCodeEditorProps {
   qrCodes: DetectedQrCode[];
@@ -13,7 +38,43 @@ interface QrCodeEditorProps {
   processedFileUrl: string | null;
   originalFilename: string;
   onReset: () => void;
+  isScanningPage: boolean;
   editedQrCodes: Map<string, string>;
+  edits: QrEdit[];
+  failedEdits: QrEdit[];
+  onClearFailedEdits: () => void;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevertEdit: (editId: string) => void;
+  isMultiPage: boolean;
+  currentPage: number;
+  inventory: DetectedQrCode[] | null;
+  scanProgress: ScanProgress | null;
+  onScanDocument: () => void;
+  onCancelScan: () => void;
+  onInventorySelect: (qrCode: DetectedQrCode) => void;
+  bulkCandidates: DetectedQrCode[];
+  onBulkReplace: (matches: BulkReplaceMatch[]) => void;
+  fileType: FileType;
+  fileFormat: FileFormat | null;
+  pdfSecurity: PdfSecurity | null;
+  replaceOptions: QrReplaceOptions;
+  onReplaceOptionsChange: (options: QrReplaceOptions) => void;
+  // Non-null while a new code is being placed.
+  insertPlacement: QrPlacement | null;
+  onStartInsert: () => void;
+  onInsertPlacementChange: (placement: QrPlacement) => void;
+  onQrInsert: (text: string) => void;
+  onCancelInsert: () => void;
+  pageWidth: number;
+  pageHeight: number;
+  onExportReport: (format: AuditReportFormat) => Promise<Blob>;
+  onImportReport: (reportFile: File) => void;
+  templates: EditTemplate[];
+  onSaveTemplate: (template: EditTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  onImportTemplates: (templateFile: File) => void;
 }
 
 export const QrCodeEditor: React.FC<QrCodeEditorProps> = ({
@@ -24,12 +85,70 @@ export const QrCodeEditor: React.FC<QrCodeEditorProps> = ({
   processedFileUrl,
   originalFilename,
   onReset,
-  editedQrCodes
+  isScanningPage,
+  editedQrCodes,
+  edits,
+  failedEdits,
+  onClearFailedEdits,
+  canRedo,
+  onUndo,
+  onRedo,
+  onRevertEdit,
+  isMultiPage,
+  currentPage,
+  inventory,
+  scanProgress,
+  onScanDocument,
+  onCancelScan,
+  onInventorySelect,
+  bulkCandidates,
+  onBulkReplace,
+  fileType,
+  fileFormat,
+  pdfSecurity,
+  replaceOptions,
+  onReplaceOptionsChange,
+  insertPlacement,
+  onStartInsert,
+  onInsertPlacementChange,
+  onQrInsert,
+  onCancelInsert,
+  pageWidth,
+  pageHeight,
+  onExportReport,
+  onImportReport,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
+  onImportTemplates
 }) => {
   const [editedText, setEditedText] = useState('');
+  const [showBulkReplace, setShowBulkReplace] = useState(false);
+  // Which template the templates panel opens with (null for a new one), or undefined while it is closed.
+  const [openTemplateId, setOpenTemplateId] = useState<string | null | undefined>(undefined);
+  const [dismissedTemplates, setDismissedTemplates] = useState<Set<string>>(new Set());
+  const showTemplates = openTemplateId !== undefined;
   const [validationError, setValidationError] = useState<string | null>(null);
 
   const selectedQr = qrCodes.find(qr => qr.id === selectedQrId);
+  const payloadFormat = detectPayloadFormat(editedText);
+
+  // Templates that aren't applied automatically are offered instead.
+  const templateSuggestions = useMemo(() => templates
+    .filter(template => !template.autoApply && !dismissedTemplates.has(template.id))
+    .map(template => {
+      try {
+        return { template, matches: findTemplateMatches(bulkCandidates, qr => editedQrCodes.get(qr.id) || qr.data, template) };
+      } catch {
+        return { template, matches: [] };
+      }
+    })
+    .filter(({ matches }) => matches.length > 0), [templates, dismissedTemplates, bulkCandidates, editedQrCodes]);
+
+  const openTemplates = (templateId: string | null) => {
+    setOpenTemplateId(templateId);
+    setShowBulkReplace(false);
+  };
 
   useEffect(() => {
     if (selectedQr) {
@@ -43,7 +162,9 @@ export const QrCodeEditor: React.FC<QrCodeEditorProps> = ({
   const handleUpdateClick = () => {
     if (!selectedQr) return;
     const textToValidate = editedText.trim();
-    if (isValidUrl(textToValidate)) {
+    if (payloadFormat && Object.keys(payloadFormat.validate(payloadFormat.parse(textToValidate))).length > 0) {
+        setValidationError(`Fix the ${payloadFormat.label} fields before updating.`);
+    } else if (isValidUrl(textToValidate)) {
         onQrUpdate(selectedQr, textToValidate);
         setValidationError(null);
     } else if (textToValidate.toLowerCase().startsWith('http:') || textToValidate.toLowerCase().startsWith('https://')) {
@@ -55,45 +176,151 @@ export const QrCodeEditor: React.FC<QrCodeEditorProps> = ({
     }
   };
 
-  const getModifiedFilename = () => {
-    const parts = originalFilename.split('.');
-    const ext = parts.pop();
-    return `${parts.join('.')}_modified.${ext}`;
-  };
+  const documentInventory = isMultiPage && (
+    <DocumentInventory
+      inventory={inventory}
+      scanProgress={scanProgress}
+      currentPage={currentPage}
+      onScan={onScanDocument}
+      onCancelScan={onCancelScan}
+      onInventorySelect={onInventorySelect}
+    />
+  );
 
-  if (qrCodes.length === 0) {
-    return (
-      <div className="flex flex-col h-full items-center justify-center text-center">
+  const insertPanel = insertPlacement && (
+    <InsertQrPanel
+      placement={insertPlacement}
+      onPlacementChange={onInsertPlacementChange}
+      pageWidth={pageWidth}
+      pageHeight={pageHeight}
+      fileFormat={fileFormat}
+      onInsert={onQrInsert}
+      onCancel={onCancelInsert}
+    />
+  );
+
+  // Shown instead of the code list on a page without codes; the editing,
+  // history and download controls stay available either way.
+  const emptyPage = qrCodes.length === 0 && !insertPanel && (
+    isScanningPage ? (
+      <div className="flex flex-col flex-grow items-center justify-center text-center">
+        <QrCodeIcon className="w-16 h-16 text-slate-600 mb-4 animate-pulse" />
+        <h3 className="text-xl font-semibold">Scanning for QR Codes…</h3>
+        <p className="text-slate-400 mt-2">You can keep browsing the document while this page is analyzed.</p>
+      </div>
+    ) : (
+      <div className="flex flex-col flex-grow items-center justify-center text-center">
         <QrCodeIcon className="w-16 h-16 text-slate-600 mb-4" />
         <h3 className="text-xl font-semibold">No QR Codes Found</h3>
         <p className="text-slate-400 mt-2">We couldn't detect any QR codes in this file or page.</p>
-        <button onClick={onReset} className="mt-6 bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
-          Upload Another File
+        <p className="text-slate-400 mt-2">If one is there, mark it by hand with the tools above the document.</p>
+        <button onClick={onStartInsert} className="mt-6 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors">
+          Add a New QR Code
         </button>
       </div>
-    );
-  }
+    )
+  );
 
   return (
     <div className="flex flex-col h-full">
-      <h2 className="text-2xl font-bold mb-4 border-b border-slate-700 pb-2">Found {qrCodes.length} QR Codes</h2>
-      <div className="flex-grow overflow-y-auto pr-2">
-        {qrCodes.map((qr, index) => (
-          <div
-            key={qr.id}
-            onClick={() => onQrSelect(qr.id)}
-            className={`p-3 mb-2 rounded-lg cursor-pointer transition-all ${
-              selectedQrId === qr.id ? 'bg-slate-700 ring-2 ring-cyan-500' : 'bg-slate-900 hover:bg-slate-700/50'
-            }`}
+      {documentInventory}
+      <div className="flex items-center justify-between mb-4 border-b border-slate-700 pb-2">
+        <h2 className="text-2xl font-bold">{qrCodes.length > 0 ? `Found ${qrCodes.length} QR Codes` : 'QR Codes'}</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => insertPlacement ? onCancelInsert() : onStartInsert()}
+            className="px-3 py-1 bg-slate-700 rounded text-sm hover:bg-slate-600"
           >
-            <p className="font-semibold text-slate-300">QR Code #{index + 1}</p>
-            <p className="text-sm text-cyan-400 break-words truncate">{editedQrCodes.get(qr.id) || qr.data}</p>
-          </div>
-        ))}
+            Add QR
+          </button>
+          <button
+            onClick={() => showTemplates ? setOpenTemplateId(undefined) : openTemplates(null)}
+            className="px-3 py-1 bg-slate-700 rounded text-sm hover:bg-slate-600"
+          >
+            Templates
+          </button>
+          <button
+            onClick={() => {
+              setShowBulkReplace(!showBulkReplace);
+              setOpenTemplateId(undefined);
+            }}
+            className="px-3 py-1 bg-slate-700 rounded text-sm hover:bg-slate-600"
+          >
+            Bulk Replace
+          </button>
+        </div>
       </div>
-      {selectedQr && (
+      {templateSuggestions.map(({ template, matches }) => (
+        <div key={template.id} className="mb-2 p-2 bg-cyan-950/50 border border-cyan-800 rounded-lg text-sm">
+          <p>Template “{template.name}” has changes for {matches.length} QR code{matches.length === 1 ? '' : 's'}.</p>
+          <div className="flex gap-2 mt-1">
+            <button onClick={() => onBulkReplace(matches)} className="px-3 py-1 bg-green-600 rounded hover:bg-green-700">Apply</button>
+            <button onClick={() => openTemplates(template.id)} className="px-3 py-1 bg-slate-700 rounded hover:bg-slate-600">Review</button>
+            <button
+              onClick={() => setDismissedTemplates(new Set([...dismissedTemplates, template.id]))}
+              className="px-3 py-1 text-slate-400 hover:text-slate-200"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+      {emptyPage || (
+        <div className="flex-grow overflow-y-auto pr-2">
+          {qrCodes.map((qr, index) => (
+            <div
+              key={qr.id}
+              onClick={() => onQrSelect(qr.id)}
+              className={`p-3 mb-2 rounded-lg cursor-pointer transition-all ${
+                selectedQrId === qr.id ? 'bg-slate-700 ring-2 ring-cyan-500' : 'bg-slate-900 hover:bg-slate-700/50'
+              }`}
+            >
+              <p className="font-semibold text-slate-300">QR Code #{index + 1}</p>
+              <p className="text-sm text-cyan-400 break-words truncate">{editedQrCodes.get(qr.id) || qr.data || '(unreadable)'}</p>
+              {qr.detection?.strategy === 'manual' ? (
+                <p className="text-xs text-amber-400">
+                  {DETECTION_STRATEGY_LABELS.manual} · couldn't be decoded, enter its new content
+                </p>
+              ) : qr.detection && (
+                <p className={`text-xs ${qr.detection.confidence < 0.5 ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {DETECTION_STRATEGY_LABELS[qr.detection.strategy]} · {Math.round(qr.detection.confidence * 100)}% confidence
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {insertPanel}
+      {showBulkReplace && !insertPanel && (
+        <>
+          <BulkReplacePanel
+            candidates={bulkCandidates}
+            editedQrCodes={editedQrCodes}
+            onBulkReplace={onBulkReplace}
+            onClose={() => setShowBulkReplace(false)}
+          />
+          <ReplaceOptionsPanel options={replaceOptions} onChange={onReplaceOptionsChange} fileType={fileType} fileFormat={fileFormat} pdfSecurity={pdfSecurity} />
+        </>
+      )}
+      {showTemplates && !insertPanel && (
+        <TemplatesPanel
+          key={openTemplateId ?? 'new'}
+          templates={templates}
+          candidates={bulkCandidates}
+          editedQrCodes={editedQrCodes}
+          edits={edits}
+          initialTemplateId={openTemplateId}
+          onSave={onSaveTemplate}
+          onDelete={onDeleteTemplate}
+          onImport={onImportTemplates}
+          onApply={onBulkReplace}
+          onClose={() => setOpenTemplateId(undefined)}
+        />
+      )}
+      {selectedQr && !showBulkReplace && !showTemplates && !insertPanel && (
         <div className="mt-4 pt-4 border-t border-slate-700">
           <h3 className="font-bold text-lg mb-2">Edit QR Code #{qrCodes.findIndex(qr => qr.id === selectedQrId) + 1}</h3>
+          {payloadFormat && <PayloadForm format={payloadFormat} text={editedText} onChange={setEditedText} />}
           <textarea
             value={editedText}
             onChange={(e) => setEditedText(e.target.value)}
@@ -101,6 +328,15 @@ export const QrCodeEditor: React.FC<QrCodeEditorProps> = ({
             rows={4}
           />
            {validationError && <p className="text-red-400 text-sm mt-1">{validationError}</p>}
+          {selectedQr.linkUri && (
+            <p className="text-xs text-slate-400 mt-1 break-all">
+              A link over this code opens <span className="text-cyan-400">{selectedQr.linkUri}</span>
+              {replaceOptions.pdfUpdateLinks
+                ? (isLinkablePayload(editedText) ? '; it will be updated to the new content.' : '; it is only updated for web, email and phone content.')
+                : '.'}
+            </p>
+          )}
+          <ReplaceOptionsPanel options={replaceOptions} onChange={onReplaceOptionsChange} fileType={fileType} fileFormat={fileFormat} pdfSecurity={pdfSecurity} />
           <button
             onClick={handleUpdateClick}
             disabled={!editedText || editedText === (editedQrCodes.get(selectedQr.id) || selectedQr.data) }
@@ -110,11 +346,13 @@ export const QrCodeEditor: React.FC<QrCodeEditorProps> = ({
           </button>
         </div>
       )}
+      <ChangeLog edits={edits} failedEdits={failedEdits} onClearFailedEdits={onClearFailedEdits} canRedo={canRedo} onUndo={onUndo} onRedo={onRedo} onRevertEdit={onRevertEdit} />
+      <AuditReportPanel originalFilename={originalFilename} onExport={onExportReport} onImport={onImportReport} />
       <div className="mt-auto pt-4 border-t border-slate-700">
         {processedFileUrl ? (
           <a
             href={processedFileUrl}
-            download={getModifiedFilename()}
+            download={getModifiedFilename(originalFilename)}
             className="w-full flex items-center justify-center gap-2 bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-lg transition-colors text-center"
           >
             <DownloadIcon className="w-5 h-5"/>
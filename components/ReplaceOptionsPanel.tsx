@@ -0,0 +1,201 @@
+import React from 'react';
+import { ErrorCorrectionLevel, FileType, QrGenerationOptions, QrReplaceOptions, QrVersionMode } from '../types';
+import { DEFAULT_GENERATION_OPTIONS } from '../services/qrGenerator';
+import { DEFAULT_JPEG_QUALITY } from '../services/imageMetadata';
+import { FileFormat } from '../services/imageFormats';
+import { PdfSecurity } from '../services/pdfSecurity';
+import { getQrColorWarning } from '../utils/helpers';
+
+interface ReplaceOptionsPanelProps {
+  options: QrReplaceOptions;
+  onChange: (options: QrReplaceOptions) => void;
+  fileType: FileType;
+  fileFormat?: FileFormat | null;
+  pdfSecurity?: PdfSecurity | null;
+}
+
+const selectClasses = 'w-full p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none';
+
+export const ReplaceOptionsPanel: React.FC<ReplaceOptionsPanelProps> = ({ options, onChange, fileType, fileFormat, pdfSecurity }) => {
+  const generation = options.generation ?? DEFAULT_GENERATION_OPTIONS;
+  const colorWarning = options.matchOriginal ? null : getQrColorWarning(generation.darkColor, generation.lightColor);
+  const incremental = options.pdfSaveMode === 'incremental';
+
+  const updateGeneration = (changes: Partial<QrGenerationOptions>) =>
+    onChange({ ...options, generation: { ...generation, ...changes } });
+
+  return (
+    <div className="mt-2 text-sm text-slate-300">
+      {pdfSecurity?.encrypted && (
+        <p className="text-red-400 text-xs mb-2">
+          This PDF is encrypted, so changes to it can't be saved. Remove its password protection first.
+        </p>
+      )}
+      {pdfSecurity?.signed && (
+        <p className="text-amber-400 text-xs mb-2">
+          This PDF is digitally signed. {incremental
+            ? 'Saving as an incremental update keeps the signatures intact, though viewers will report the document as changed since signing.'
+            : 'Rewriting the file will invalidate its signatures.'}
+        </p>
+      )}
+      {fileType === 'pdf' && (
+        <>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.pdfReplaceMode === 'inPlace'}
+              onChange={(e) => onChange({ ...options, pdfReplaceMode: e.target.checked ? 'inPlace' : 'cover' })}
+            />
+            True replace (remove the original code from the PDF)
+          </label>
+          <label className="flex items-center gap-2 mt-1">
+            <input
+              type="checkbox"
+              checked={(options.pdfQrFormat ?? 'vector') === 'vector'}
+              onChange={(e) => onChange({ ...options, pdfQrFormat: e.target.checked ? 'vector' : 'image' })}
+            />
+            Draw as vector (sharp in print)
+          </label>
+          <label className="flex items-center gap-2 mt-1">
+            <input
+              type="checkbox"
+              checked={incremental}
+              onChange={(e) => onChange({ ...options, pdfSaveMode: e.target.checked ? 'incremental' : 'rewrite' })}
+            />
+            Save as an incremental update (keeps signatures and form data)
+          </label>
+          {incremental && options.pdfReplaceMode === 'inPlace' && (
+            <p className="text-amber-400 text-xs mt-1">
+              The original code is removed from the current revision only; it can still be recovered from the earlier one kept in the file.
+            </p>
+          )}
+          <label className="flex items-center gap-2 mt-1">
+            <input
+              type="checkbox"
+              checked={!!options.pdfUpdateLinks}
+              onChange={(e) => onChange({ ...options, pdfUpdateLinks: e.target.checked })}
+            />
+            Point links over the code at its new content
+          </label>
+        </>
+      )}
+      <label className="flex items-center gap-2 mt-1">
+        <input
+          type="checkbox"
+          checked={!!options.matchOriginal}
+          onChange={(e) => onChange({ ...options, matchOriginal: e.target.checked })}
+        />
+        Match original style (colours, quiet zone, module size)
+      </label>
+      {fileFormat === 'jpeg' && (
+        <div className="mt-1">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options.jpegQuality === undefined}
+              onChange={(e) => onChange({ ...options, jpegQuality: e.target.checked ? undefined : DEFAULT_JPEG_QUALITY })}
+            />
+            Keep the original JPEG quality
+          </label>
+          {options.jpegQuality !== undefined && (
+            <label className="flex items-center gap-2 mt-1">
+              JPEG quality
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={options.jpegQuality}
+                onChange={(e) => onChange({ ...options, jpegQuality: Number(e.target.value) })}
+                className="flex-grow"
+              />
+              <span className="w-8 text-right">{options.jpegQuality}</span>
+            </label>
+          )}
+        </div>
+      )}
+      <details className="mt-2">
+        <summary className="cursor-pointer text-slate-400 hover:text-slate-200">QR generation options</summary>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          <label>
+            Error correction
+            <select
+              value={generation.errorCorrectionLevel}
+              onChange={(e) => updateGeneration({ errorCorrectionLevel: e.target.value as ErrorCorrectionLevel })}
+              className={selectClasses}
+            >
+              <option value="L">L (7%)</option>
+              <option value="M">M (15%)</option>
+              <option value="Q">Q (25%)</option>
+              <option value="H">H (30%)</option>
+            </select>
+          </label>
+          <label>
+            Quiet zone (modules)
+            <input
+              type="number"
+              min={0}
+              max={10}
+              value={generation.margin}
+              onChange={(e) => updateGeneration({ margin: Math.max(0, Math.min(10, Number(e.target.value) || 0)) })}
+              className={selectClasses}
+            />
+          </label>
+          <label>
+            Foreground
+            <input
+              type="color"
+              value={generation.darkColor}
+              onChange={(e) => updateGeneration({ darkColor: e.target.value })}
+              className="w-full h-8 bg-slate-900 border border-slate-600 rounded-md"
+            />
+          </label>
+          <label>
+            Background
+            <input
+              type="color"
+              value={generation.lightColor}
+              onChange={(e) => updateGeneration({ lightColor: e.target.value })}
+              className="w-full h-8 bg-slate-900 border border-slate-600 rounded-md"
+            />
+          </label>
+          <label>
+            Version
+            <select
+              value={generation.versionMode}
+              onChange={(e) => updateGeneration({ versionMode: e.target.value as QrVersionMode })}
+              className={selectClasses}
+            >
+              <option value="auto">Auto</option>
+              <option value="min">Minimum</option>
+              <option value="fixed">Fixed</option>
+            </select>
+          </label>
+          <label>
+            &nbsp;
+            <input
+              type="number"
+              min={1}
+              max={40}
+              value={generation.version}
+              disabled={generation.versionMode === 'auto'}
+              onChange={(e) => updateGeneration({ version: Math.max(1, Math.min(40, Number(e.target.value) || 1)) })}
+              className={`${selectClasses} disabled:opacity-50`}
+            />
+          </label>
+          <label className="col-span-2">
+            Mask pattern
+            <select
+              value={generation.maskPattern ?? ''}
+              onChange={(e) => updateGeneration({ maskPattern: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className={selectClasses}
+            >
+              <option value="">Auto (best penalty score)</option>
+              {[0, 1, 2, 3, 4, 5, 6, 7].map(mask => <option key={mask} value={mask}>{mask}</option>)}
+            </select>
+          </label>
+        </div>
+      </details>
+      {colorWarning && <p className="text-amber-400 text-xs mt-2">{colorWarning}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { DetectedQrCode, QrEdit } from '../types';
+import { BulkReplaceMatch } from '../utils/bulkReplace';
+import { createTemplateFromEdits, EditTemplate, findTemplateMatches, serializeTemplates, TemplateMatchMode, TemplateRule, validateTemplate } from '../utils/editTemplates';
+import { downloadBlob } from '../utils/helpers';
+
+interface TemplatesPanelProps {
+  templates: EditTemplate[];
+  candidates: DetectedQrCode[];
+  editedQrCodes: Map<string, string>;
+  edits: QrEdit[];
+  // The template to open with; a new one when null.
+  initialTemplateId: string | null;
+  onSave: (template: EditTemplate) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onApply: (matches: BulkReplaceMatch[]) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<TemplateMatchMode, string> = {
+  equals: 'Equals',
+  startsWith: 'Starts with',
+  regex: 'Matches regex',
+};
+
+const inputClasses = 'w-full p-1 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none';
+
+const newTemplate = (): EditTemplate => ({ id: crypto.randomUUID(), name: '', rules: [], autoApply: false, updatedAt: '' });
+const newRule = (): TemplateRule => ({ mode: 'equals', pattern: '', replacement: '' });
+
+export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
+  templates,
+  candidates,
+  editedQrCodes,
+  edits,
+  initialTemplateId,
+  onSave,
+  onDelete,
+  onImport,
+  onApply,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<EditTemplate>(() => templates.find(t => t.id === initialTemplateId) ?? newTemplate());
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const isSaved = templates.some(t => t.id === draft.id);
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: findTemplateMatches(candidates, qr => editedQrCodes.get(qr.id) || qr.data, draft), error: null };
+    } catch (e) {
+      return { matches: [], error: (e as Error).message };
+    }
+  }, [candidates, editedQrCodes, draft]);
+
+  const update = (changes: Partial<EditTemplate>) => {
+    setDraft({ ...draft, ...changes });
+    setSaveError(null);
+  };
+  const updateRule = (index: number, changes: Partial<TemplateRule>) =>
+    update({ rules: draft.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+
+  const handleSelect = (id: string) => {
+    setDraft(templates.find(t => t.id === id) ?? newTemplate());
+    setSaveError(null);
+  };
+
+  const handleSave = () => {
+    const template = { ...draft, name: draft.name.trim(), updatedAt: new Date().toISOString() };
+    try {
+      validateTemplate(template);
+    } catch (e) {
+      setSaveError((e as Error).message);
+      return;
+    }
+    setDraft(template);
+    onSave(template);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const templateFile = e.target.files?.[0];
+    e.target.value = '';
+    if (templateFile) onImport(templateFile);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-lg">Templates</h3>
+        <button onClick={onClose} className="text-sm text-slate-400 hover:text-slate-200">Close</button>
+      </div>
+      <div className="flex gap-2">
+        <select value={isSaved ? draft.id : ''} onChange={(e) => handleSelect(e.target.value)} className={inputClasses}>
+          <option value="">New template</option>
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <button onClick={() => importInputRef.current?.click()} className="px-3 py-1 bg-slate-700 rounded hover:bg-slate-600">
+          Import
+        </button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImportChange} className="hidden" />
+        <button
+          onClick={() => downloadBlob(new Blob([serializeTemplates([draft])], { type: 'application/json' }), `${draft.name || 'template'}.json`)}
+          disabled={!isSaved}
+          className="px-3 py-1 bg-slate-700 rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600"
+        >
+          Export
+        </button>
+      </div>
+
+      <input
+        value={draft.name}
+        onChange={(e) => update({ name: e.target.value })}
+        placeholder="Template name"
+        className={`${inputClasses} mt-2 p-2`}
+      />
+      <label className="flex items-center gap-2 mt-1 text-slate-300">
+        <input type="checkbox" checked={draft.autoApply} onChange={(e) => update({ autoApply: e.target.checked })} />
+        Apply automatically when codes are detected
+      </label>
+
+      <div className="mt-2 max-h-64 overflow-y-auto pr-2 space-y-2">
+        {draft.rules.length === 0 && <p className="text-slate-500">No rules yet.</p>}
+        {draft.rules.map((rule, i) => (
+          <div key={i} className="p-2 bg-slate-900 rounded-lg space-y-1">
+            <div className="flex gap-2">
+              <select
+                value={rule.mode}
+                onChange={(e) => updateRule(i, { mode: e.target.value as TemplateMatchMode })}
+                className={inputClasses}
+              >
+                {Object.entries(MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>{label}</option>)}
+              </select>
+              <button
+                onClick={() => update({ rules: draft.rules.filter((_, j) => j !== i) })}
+                className="px-2 text-slate-400 hover:text-red-400"
+                title="Remove rule"
+              >
+                ×
+              </button>
+            </div>
+            <input
+              value={rule.pattern}
+              onChange={(e) => updateRule(i, { pattern: e.target.value })}
+              placeholder={rule.mode === 'regex' ? 'Regular expression' : 'Payload'}
+              className={inputClasses}
+            />
+            <input
+              value={rule.replacement}
+              onChange={(e) => updateRule(i, { replacement: e.target.value })}
+              placeholder={rule.mode === 'regex' ? 'Replacement ($1 for groups)' : rule.mode === 'startsWith' ? 'New beginning' : 'New payload'}
+              className={inputClasses}
+            />
+            <div className="flex items-center gap-2 text-slate-300">
+              <label className="flex items-center gap-1">
+                Page
+                <input
+                  type="number"
+                  min={1}
+                  value={rule.page ?? ''}
+                  onChange={(e) => updateRule(i, { page: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : undefined })}
+                  placeholder="Any"
+                  className={`${inputClasses} w-16`}
+                />
+              </label>
+              {rule.position && (
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked onChange={() => updateRule(i, { position: undefined })} />
+                  Only at ({Math.round(rule.position.x)}, {Math.round(rule.position.y)})
+                </label>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <button onClick={() => update({ rules: [...draft.rules, newRule()] })} className="px-3 py-1 bg-slate-700 rounded hover:bg-slate-600">
+          Add Rule
+        </button>
+        <button
+          onClick={() => update({ rules: [...draft.rules, ...createTemplateFromEdits(draft.name, edits).rules] })}
+          disabled={!edits.some(edit => !edit.inserted)}
+          className="px-3 py-1 bg-slate-700 rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-slate-600"
+        >
+          Add This Session's Edits
+        </button>
+      </div>
+
+      {(error || saveError) && <p className="text-red-400 mt-1">{error || saveError}</p>}
+      {draft.rules.length > 0 && !error && (
+        <div className="mt-2 max-h-40 overflow-y-auto pr-2 space-y-2">
+          {matches.length === 0 && <p className="text-slate-500">No QR codes match.</p>}
+          {matches.map(({ qrCode, oldText, newText }) => (
+            <div key={qrCode.id} className="p-2 bg-slate-900 rounded-lg">
+              {qrCode.page && <p className="text-xs text-slate-400">Page {qrCode.page}</p>}
+              <p className="text-slate-500 line-through break-words truncate">{oldText}</p>
+              <p className="text-cyan-400 break-words truncate">{newText}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-2">
+        <button onClick={handleSave} className="flex-grow bg-slate-700 hover:bg-slate-600 font-bold py-2 px-4 rounded-lg">
+          Save
+        </button>
+        {isSaved && (
+          <button
+            onClick={() => {
+              onDelete(draft.id);
+              setDraft(newTemplate());
+            }}
+            className="bg-slate-700 hover:bg-red-700 font-bold py-2 px-4 rounded-lg"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      <button
+        onClick={() => onApply(matches)}
+        disabled={matches.length === 0}
+        className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed"
+      >
+        Replace {matches.length} QR Code{matches.length === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
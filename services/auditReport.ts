@@ -0,0 +1,207 @@
+import { DetectedQrCode, QrEdit, QrEditVerification, QrReplaceOptions } from '../types';
+import { getPolygonCenter, getQrCorners, isObject, isPoint, isPointInPolygon, isSameQrCode, Point } from '../utils/helpers';
+import { toCsv } from '../utils/payloadMapping';
+import { createPlaceholderQrCode } from './qrDetector';
+import { createInsertEdit } from './editSession';
+
+// A record of every code found in a document and what was done to it, for
+// proving which links changed. The JSON form can be imported again to re-apply
+// the same edits to another version of the document.
+
+const REPORT_FORMAT = 'qr-audit-report';
+const REPORT_VERSION = 1;
+
+export interface AuditFile {
+    name: string;
+    sha256: string;
+}
+
+export interface AuditEntry {
+    page: number;
+    // Top-left, top-right, bottom-right, bottom-left, in rendered page pixels.
+    corners: Point[];
+    originalPayload: string;
+    // Null for a code that was left as it was.
+    newPayload: string | null;
+    // A code added to the document rather than replacing one.
+    inserted?: boolean;
+    options?: QrReplaceOptions;
+    verification?: QrEditVerification;
+    modifiedAt?: string;
+}
+
+export interface AuditReport {
+    format: typeof REPORT_FORMAT;
+    version: number;
+    generatedAt: string;
+    input: AuditFile;
+    // Null until the document has been edited.
+    output: AuditFile | null;
+    entries: AuditEntry[];
+}
+
+export async function sha256Hex(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// `codes` are the codes found in the document (the whole-document inventory
+// when there is one); `edits` the applied edit history. A code edited several
+// times is listed once, from its original payload to its latest one.
+export async function buildAuditReport(
+    input: File,
+    output: { file: File, name: string } | null,
+    codes: DetectedQrCode[],
+    edits: QrEdit[]
+): Promise<AuditReport> {
+    const editsByCode = new Map<string, QrEdit[]>();
+    edits.forEach(edit => editsByCode.set(edit.qrCode.id, [...(editsByCode.get(edit.qrCode.id) ?? []), edit]));
+
+    const entries: AuditEntry[] = [...editsByCode.values()].map(history => {
+        const first = history[0];
+        const last = history[history.length - 1];
+        return {
+            page: last.page,
+            corners: getQrCorners(first.qrCode.location),
+            originalPayload: first.oldText,
+            newPayload: last.newText,
+            inserted: first.inserted || undefined,
+            options: last.options,
+            verification: last.verification,
+            modifiedAt: last.appliedAt,
+        };
+    });
+    const editedCodes = [...editsByCode.values()].map(history => history[0].qrCode);
+    codes
+        .filter(code => !editedCodes.some(edited => isSameQrCode(code, edited)))
+        .forEach(code => entries.push({
+            page: code.page ?? 1,
+            corners: getQrCorners(code.location),
+            originalPayload: code.data,
+            newPayload: null,
+        }));
+    entries.sort((a, b) => a.page - b.page || a.corners[0].y - b.corners[0].y || a.corners[0].x - b.corners[0].x);
+
+    return {
+        format: REPORT_FORMAT,
+        version: REPORT_VERSION,
+        generatedAt: new Date().toISOString(),
+        input: { name: input.name, sha256: await sha256Hex(input) },
+        output: output && { name: output.name, sha256: await sha256Hex(output.file) },
+        entries,
+    };
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function auditReportToCsv(report: AuditReport): string {
+    return toCsv([
+        [
+            'input_file', 'input_sha256', 'output_file', 'output_sha256', 'page',
+            'top_left_x', 'top_left_y', 'top_right_x', 'top_right_y',
+            'bottom_right_x', 'bottom_right_y', 'bottom_left_x', 'bottom_left_y',
+            'original_payload', 'new_payload', 'status', 'verification', 'modified_at',
+            'error_correction', 'quiet_zone', 'foreground', 'background', 'version', 'mask_pattern', 'match_original',
+            'report_generated_at',
+        ],
+        ...report.entries.map(entry => {
+            const generation = entry.options?.generation;
+            const status = entry.newPayload === null ? 'unchanged' : entry.inserted ? 'inserted' : 'replaced';
+            return [
+                report.input.name, report.input.sha256, report.output?.name ?? '', report.output?.sha256 ?? '', entry.page,
+                ...entry.corners.flatMap(corner => [round(corner.x), round(corner.y)]),
+                entry.originalPayload, entry.newPayload ?? '', status, entry.verification ?? '', entry.modifiedAt ?? '',
+                generation?.errorCorrectionLevel ?? '', generation?.margin ?? '', generation?.darkColor ?? '', generation?.lightColor ?? '',
+                generation ? (generation.versionMode === 'fixed' ? generation.version : generation.versionMode) : '',
+                generation?.maskPattern ?? '', entry.options ? String(!!entry.options.matchOriginal) : '',
+                report.generatedAt,
+            ];
+        }),
+    ]);
+}
+
+const isAuditFile = (value: unknown): value is AuditFile => isObject(value) && typeof value.name === 'string' && typeof value.sha256 === 'string';
+
+// Recorded options and verification results are taken as they are.
+const isAuditEntry = (value: unknown): value is AuditEntry => isObject(value)
+    && Number.isInteger(value.page) && Array.isArray(value.corners) && value.corners.length === 4 && value.corners.every(isPoint)
+    && typeof value.originalPayload === 'string' && (value.newPayload === null || typeof value.newPayload === 'string');
+
+export function parseAuditReport(text: string): AuditReport {
+    const parsed: unknown = JSON.parse(text);
+    if (!isObject(parsed) || parsed.format !== REPORT_FORMAT) throw new Error('This is not a QR audit report.');
+    const version = typeof parsed.version === 'number' ? parsed.version : REPORT_VERSION;
+    if (version > REPORT_VERSION) throw new Error('The report was written by a newer version of this app.');
+    if (!Array.isArray(parsed.entries)) throw new Error('The report has no entries.');
+    const entries = parsed.entries.map((entry: unknown, i: number) => {
+        if (!isAuditEntry(entry)) throw new Error(`Entry ${i + 1} is incomplete.`);
+        return entry;
+    });
+    return {
+        format: REPORT_FORMAT,
+        version,
+        generatedAt: typeof parsed.generatedAt === 'string' ? parsed.generatedAt : '',
+        input: isAuditFile(parsed.input) ? parsed.input : { name: '', sha256: '' },
+        output: isAuditFile(parsed.output) ? parsed.output : null,
+        entries,
+    };
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Finds the code an entry refers to in another version of the document: on the
+// same page, the nearest one with the same original payload, or failing that
+// (the payload was changed elsewhere) the one at the entry's position.
+function findEntryCode(entry: AuditEntry, codes: DetectedQrCode[]): DetectedQrCode | undefined {
+    const center = getPolygonCenter(entry.corners);
+    const onPage = codes.filter(code => (code.page ?? 1) === entry.page);
+    const byDistance = (a: DetectedQrCode, b: DetectedQrCode) =>
+        distance(getPolygonCenter(getQrCorners(a.location)), center) - distance(getPolygonCenter(getQrCorners(b.location)), center);
+    return onPage.filter(code => code.data === entry.originalPayload).sort(byDistance)[0]
+        ?? onPage.find(code => isPointInPolygon(center, getQrCorners(code.location)));
+}
+
+// Turns a report's changes into one batch of edits against `codes`. Codes that
+// already carry their new payload are skipped; entries whose code can't be found
+// are returned as unmatched. Entries without recorded options use `options`.
+export function createEditsFromReport(
+    report: AuditReport,
+    codes: DetectedQrCode[],
+    editedPayloads: Map<string, string>,
+    options: QrReplaceOptions
+): { edits: QrEdit[], unmatched: AuditEntry[] } {
+    const batchId = crypto.randomUUID();
+    const edits: QrEdit[] = [];
+    const unmatched: AuditEntry[] = [];
+    const used = new Set<DetectedQrCode>();
+
+    report.entries.forEach(entry => {
+        if (entry.newPayload === null) return;
+        const onPage = codes.filter(code => (code.page ?? 1) === entry.page);
+        if (entry.inserted) {
+            const placeholder: DetectedQrCode = { ...createPlaceholderQrCode(entry.corners), id: crypto.randomUUID(), page: entry.page };
+            const index = onPage.length + edits.filter(edit => edit.inserted && edit.page === entry.page).length;
+            edits.push({ ...createInsertEdit(placeholder, entry.page, index, entry.newPayload, entry.options ?? options), batchId });
+            return;
+        }
+        const code = findEntryCode(entry, codes.filter(code => !used.has(code)));
+        if (!code) {
+            unmatched.push(entry);
+            return;
+        }
+        used.add(code);
+        const currentText = editedPayloads.get(code.id) ?? code.data;
+        if (currentText === entry.newPayload) return;
+        edits.push({
+            id: crypto.randomUUID(),
+            qrCode: code,
+            page: entry.page,
+            index: onPage.indexOf(code),
+            oldText: currentText,
+            newText: entry.newPayload,
+            options: entry.options ?? options,
+            batchId,
+        });
+    });
+    return { edits, unmatched };
+}
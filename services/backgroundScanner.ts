@@ -0,0 +1,168 @@
+import { DetectedQrCode } from '../types';
+import { processFileForQrCodes, scanDocumentForQrCodes, ScanProgress } from './fileProcessor';
+import { canDecodeInWorker } from './imageFormats';
+import type { ScanWorkerEnvelope, ScanWorkerRequest, ScanWorkerResponse } from './scanWorker';
+
+// Runs page rendering and QR detection in long-lived workers so the UI stays
+// responsive and a PDF is parsed once per version rather than once per page.
+// Page scans and whole-document scans use separate workers: cancelling
+// terminates the worker outright, which also stops a pdf.js render or detection
+// pass that is already under way, and must not take the other kind down with it.
+// Browsers without module workers or OffscreenCanvas, and SVG files, fall back
+// to the main thread.
+
+// A file plus, optionally, the key of the DocumentSession version it belongs to.
+export interface ScanSource {
+    file: File;
+    key?: string;
+}
+
+interface WorkerCallbacks {
+    onRendered?: (dataUrl: string, pageCount?: number) => void;
+    onProgress?: (progress: ScanProgress) => void;
+}
+
+interface PendingRequest {
+    callbacks: WorkerCallbacks;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    cleanup: () => void;
+}
+
+// Set once a worker fails to start, so later requests skip straight to the fallback.
+let workerUnavailable = false;
+
+class WorkerStartupError extends Error {}
+
+function abortError() {
+    return new DOMException('Scan cancelled', 'AbortError');
+}
+
+function canUseWorker(file: File): boolean {
+    return !workerUnavailable && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && canDecodeInWorker(file);
+}
+
+class ScanWorkerChannel {
+    private worker: Worker | null = null;
+    private nextId = 0;
+    private pending = new Map<number, PendingRequest>();
+
+    run<T>(request: ScanWorkerRequest, callbacks: WorkerCallbacks, signal?: AbortSignal): Promise<T> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(abortError());
+
+            const id = this.nextId++;
+            const onAbort = () => this.terminate(abortError());
+            signal?.addEventListener('abort', onAbort);
+            this.pending.set(id, {
+                callbacks,
+                resolve: result => resolve(result as T),
+                reject,
+                cleanup: () => signal?.removeEventListener('abort', onAbort),
+            });
+            const envelope: ScanWorkerEnvelope<ScanWorkerRequest> = { id, message: request };
+            this.getWorker().postMessage(envelope);
+        });
+    }
+
+    // Stops the worker and rejects everything in flight on it. The next request
+    // starts a fresh worker.
+    terminate(reason: Error) {
+        this.worker?.terminate();
+        this.worker = null;
+        const pending = [...this.pending.values()];
+        this.pending.clear();
+        pending.forEach(request => {
+            request.cleanup();
+            request.reject(reason);
+        });
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            const worker = new Worker(new URL('./scanWorker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<ScanWorkerEnvelope<ScanWorkerResponse>>) => this.handleMessage(event.data);
+            worker.onerror = (event) => {
+                event.preventDefault();
+                this.terminate(new WorkerStartupError(event.message || 'Scan worker failed to start'));
+            };
+            this.worker = worker;
+        }
+        return this.worker;
+    }
+
+    private handleMessage({ id, message }: ScanWorkerEnvelope<ScanWorkerResponse>) {
+        const request = this.pending.get(id);
+        if (!request) return;
+        switch (message.type) {
+            case 'rendered':
+                request.callbacks.onRendered?.(message.dataUrl, message.pageCount);
+                break;
+            case 'progress':
+                request.callbacks.onProgress?.(message.progress);
+                break;
+            case 'done':
+            case 'error':
+                this.pending.delete(id);
+                request.cleanup();
+                if (message.type === 'done') request.resolve(message.result);
+                else request.reject(new Error(message.message));
+                break;
+        }
+    }
+}
+
+const pageChannel = new ScanWorkerChannel();
+const documentChannel = new ScanWorkerChannel();
+
+async function runWithFallback<T>(
+    channel: ScanWorkerChannel,
+    request: ScanWorkerRequest,
+    callbacks: WorkerCallbacks,
+    signal: AbortSignal | undefined,
+    fallback: () => Promise<T>
+): Promise<T> {
+    if (canUseWorker(request.file)) {
+        try {
+            return await channel.run<T>(request, callbacks, signal);
+        } catch (error) {
+            if ((error as Error).name === 'AbortError') throw error;
+            if (error instanceof WorkerStartupError) workerUnavailable = true;
+            console.warn('Background scan failed, retrying on the main thread:', error);
+        }
+    }
+
+    const result = await fallback();
+    if (signal?.aborted) throw abortError();
+    return result;
+}
+
+// Aborting `signal` also cancels any other page scan still running.
+export function scanPageInBackground(
+    { file, key }: ScanSource,
+    pageNum: number,
+    onRendered?: (dataUrl: string, pageCount?: number) => void,
+    signal?: AbortSignal
+): Promise<{ codes: DetectedQrCode[], dataUrl: string, pageCount?: number }> {
+    return runWithFallback(
+        pageChannel,
+        { type: 'scanPage', file, documentKey: key, pageNum },
+        { onRendered },
+        signal,
+        () => processFileForQrCodes(file, pageNum, onRendered)
+    );
+}
+
+export function scanDocumentInBackground(
+    { file, key }: ScanSource,
+    onProgress?: (progress: ScanProgress) => void,
+    signal?: AbortSignal
+): Promise<DetectedQrCode[]> {
+    return runWithFallback(
+        documentChannel,
+        { type: 'scanDocument', file, documentKey: key },
+        { onProgress },
+        signal,
+        () => scanDocumentForQrCodes(file, onProgress, signal)
+    );
+}
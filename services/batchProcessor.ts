@@ -0,0 +1,144 @@
+import { QrEdit, QrReplaceOptions } from '../types';
+import { getFileType } from '../utils/helpers';
+import { PayloadMapping, toCsv } from '../utils/payloadMapping';
+import { createZip, ZipEntry } from '../utils/zip';
+import { scanDocumentInBackground } from './backgroundScanner';
+import { applyVerifiedEdits } from './editSession';
+import { DocumentSession } from './documentSession';
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'unchanged' | 'error' | 'cancelled';
+
+export interface BatchFileResult {
+    file: File;
+    status: BatchStatus;
+    detected: number;
+    replaced: number;
+    // Payloads with no mapping.
+    unmatched: string[];
+    // Payloads already mapped to themselves, so left as they are.
+    alreadyCurrent: string[];
+    // Payloads whose replacement didn't scan back as its new text and was rolled back.
+    failed: string[];
+    output?: Blob;
+    error?: string;
+}
+
+export const emptyBatchResult = (file: File, status: BatchStatus): BatchFileResult =>
+    ({ file, status, detected: 0, replaced: 0, unmatched: [], alreadyCurrent: [], failed: [] });
+
+export async function processBatchFile(
+    file: File,
+    mapping: PayloadMapping,
+    options: QrReplaceOptions,
+    signal?: AbortSignal
+): Promise<BatchFileResult> {
+    const fileType = getFileType(file);
+    if (!fileType) {
+        return { ...emptyBatchResult(file, 'error'), error: 'Unsupported file type' };
+    }
+
+    const session = new DocumentSession(file, fileType);
+    try {
+        const codes = await scanDocumentInBackground(session, undefined, signal);
+        const edits: QrEdit[] = [];
+        const unmatched: string[] = [];
+        const alreadyCurrent: string[] = [];
+        codes.forEach(qrCode => {
+            const newText = mapping.get(qrCode.data);
+            if (newText === undefined) {
+                unmatched.push(qrCode.data);
+                return;
+            }
+            if (newText === qrCode.data) {
+                alreadyCurrent.push(qrCode.data);
+                return;
+            }
+            const page = qrCode.page ?? 1;
+            edits.push({
+                id: crypto.randomUUID(),
+                qrCode,
+                page,
+                index: codes.filter(qr => (qr.page ?? 1) === page).indexOf(qrCode),
+                oldText: qrCode.data,
+                newText,
+                options,
+            });
+        });
+
+        const summary = { file, detected: codes.length, unmatched, alreadyCurrent };
+        if (edits.length === 0) {
+            return { ...summary, status: 'unchanged', replaced: 0, failed: [] };
+        }
+        // The last point to stop: once edits start, the file runs to the end.
+        signal?.throwIfAborted();
+        const { applied, failed } = await applyVerifiedEdits(session, edits);
+        const failedPayloads = failed.map(edit => edit.oldText);
+        if (applied.length === 0) {
+            return { ...summary, status: 'error', replaced: 0, failed: failedPayloads, error: "No replacement scanned back as its new text" };
+        }
+        return { ...summary, status: 'done', replaced: applied.length, failed: failedPayloads, output: session.file };
+    } catch (error) {
+        if ((error as Error).name === 'AbortError') return emptyBatchResult(file, 'cancelled');
+        console.error(`Error processing ${file.name}:`, error);
+        return { ...emptyBatchResult(file, 'error'), error: (error as Error).message };
+    } finally {
+        session.destroy();
+    }
+}
+
+// Files run one at a time: each PDF is rendered page by page, and running
+// several in parallel would only fight over the same main thread. Aborting
+// `signal` stops the file being scanned and marks the rest as cancelled; files
+// already finished keep their results.
+export async function processBatch(
+    files: File[],
+    mapping: PayloadMapping,
+    options: QrReplaceOptions,
+    onResult: (index: number, result: BatchFileResult) => void,
+    signal?: AbortSignal
+): Promise<BatchFileResult[]> {
+    const results: BatchFileResult[] = [];
+    for (let i = 0; i < files.length; i++) {
+        if (signal?.aborted) {
+            const result = emptyBatchResult(files[i], 'cancelled');
+            results.push(result);
+            onResult(i, result);
+            continue;
+        }
+        onResult(i, emptyBatchResult(files[i], 'processing'));
+        const result = await processBatchFile(files[i], mapping, options, signal);
+        results.push(result);
+        onResult(i, result);
+    }
+    return results;
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) {
+        const dot = name.lastIndexOf('.');
+        candidate = dot > 0 ? `${name.slice(0, dot)} (${n})${name.slice(dot)}` : `${name} (${n})`;
+    }
+    used.add(candidate);
+    return candidate;
+}
+
+export function buildBatchReport(results: BatchFileResult[]): string {
+    return toCsv([
+        ['file', 'status', 'qr_codes_detected', 'qr_codes_replaced', 'unmatched_payloads', 'already_current_payloads', 'failed_payloads', 'error'],
+        ...results.map(r => [
+            r.file.name, r.status, r.detected, r.replaced,
+            r.unmatched.join(' | '), r.alreadyCurrent.join(' | '), r.failed.join(' | '), r.error || '',
+        ]),
+    ]);
+}
+
+// Only modified files go into the archive; untouched and failed files are listed in the report.
+export async function buildBatchZip(results: BatchFileResult[]): Promise<Blob> {
+    const usedNames = new Set<string>(['summary.csv']);
+    const entries: ZipEntry[] = results
+        .filter(r => r.output)
+        .map(r => ({ name: uniqueName(r.file.name, usedNames), data: r.output! }));
+    entries.push({ name: 'summary.csv', data: buildBatchReport(results) });
+    return createZip(entries);
+}
@@ -0,0 +1,90 @@
+// Canvas helpers that work both on the main thread and inside the scan worker,
+// where there is no `document` and only OffscreenCanvas is available.
+
+export type ScanCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type ScanContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function createCanvas(width: number, height: number): ScanCanvas {
+    if (typeof document === 'undefined') {
+        return new OffscreenCanvas(width, height);
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+export function getContext2d(canvas: ScanCanvas, settings?: CanvasRenderingContext2DSettings): ScanContext {
+    const ctx = (canvas as HTMLCanvasElement).getContext('2d', settings) as ScanContext | null;
+    if (!ctx) throw new Error('Could not get canvas context');
+    return ctx;
+}
+
+export async function canvasToDataUrl(canvas: ScanCanvas): Promise<string> {
+    if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+        return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+    }
+    return (canvas as HTMLCanvasElement).toDataURL('image/png');
+}
+
+// Browsers fall back to PNG for types they can't encode, so the result's type
+// is worth checking. `quality` (0-1) applies to lossy types.
+export function canvasToBlob(canvas: ScanCanvas, type: string, quality?: number): Promise<Blob> {
+    if (typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas) {
+        return canvas.convertToBlob({ type, quality });
+    }
+    return new Promise((resolve, reject) => {
+        (canvas as HTMLCanvasElement).toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to create blob from canvas')), type, quality);
+    });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error('Failed to read image'));
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Decodes an image file onto a canvas of its natural size, turned upright by
+// its EXIF orientation. Pixels keep the file's own colour space, so that a
+// saved copy can carry the original colour profile over unchanged.
+export async function loadImageToCanvas(file: Blob): Promise<ScanCanvas> {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image', colorSpaceConversion: 'none' });
+    try {
+        const canvas = createCanvas(bitmap.width, bitmap.height);
+        getContext2d(canvas).drawImage(bitmap, 0, 0);
+        return canvas;
+    } finally {
+        bitmap.close();
+    }
+}
+
+interface CanvasAndContext {
+    canvas: ScanCanvas | null;
+    context: ScanContext | null;
+}
+
+// pdf.js creates scratch canvases (patterns, masks) through this factory. Its
+// default one uses `document`, so the worker hands it this instead.
+export class OffscreenCanvasFactory {
+    create(width: number, height: number): CanvasAndContext {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: getContext2d(canvas) };
+    }
+
+    reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+        if (!canvasAndContext.canvas) throw new Error('Canvas is not specified');
+        canvasAndContext.canvas.width = width;
+        canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext: CanvasAndContext) {
+        if (!canvasAndContext.canvas) throw new Error('Canvas is not specified');
+        canvasAndContext.canvas.width = 0;
+        canvasAndContext.canvas.height = 0;
+        canvasAndContext.canvas = null;
+        canvasAndContext.context = null;
+    }
+}
@@ -0,0 +1,215 @@
+// Decoder for the CCITT fax compressions TIFF uses for bilevel scans: Modified
+// Huffman (compression 2), Group 3 / T.4 in one or two dimensions (3) and
+// Group 4 / T.6 (4). Output rows are packed one bit per pixel, most significant
+// bit first, with white runs as 0 and black runs as 1 - which is what the
+// photometric interpretation is then applied to. T.4's uncompressed mode and
+// T.6's extensions are not supported.
+
+export interface CcittOptions {
+    columns: number;
+    rows: number;
+    // The T4Options tag: bit 0 two-dimensional coding, bit 1 uncompressed mode,
+    // bit 2 fill bits so each EOL ends on a byte boundary.
+    t4Options?: number;
+    // FillOrder 2: the bits of each byte are stored least significant first.
+    reversedBits?: boolean;
+}
+
+const COMPRESSION = { modifiedHuffman: 2, t4: 3, t6: 4 };
+
+// Terminating codes for runs of 0-63 pixels.
+const WHITE_TERMINATING = [
+    '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+    '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+    '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011', '0000100',
+    '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011', '00011010',
+    '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+    '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010',
+    '00001011', '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000',
+    '01011001', '01011010', '01011011', '01001010', '01001011', '00110010', '00110011', '00110100',
+];
+const BLACK_TERMINATING = [
+    '0000110111', '010', '11', '10', '011', '0011', '0010', '00011',
+    '000101', '000100', '0000100', '0000101', '0000111', '00000100', '00000111', '000011000',
+    '0000010111', '0000011000', '0000001000', '00001100111', '00001101000', '00001101100', '00000110111', '00000101000',
+    '00000010111', '00000011000', '000011001010', '000011001011', '000011001100', '000011001101', '000001101000', '000001101001',
+    '000001101010', '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110', '000011010111',
+    '000001101100', '000001101101', '000011011010', '000011011011', '000001010100', '000001010101', '000001010110', '000001010111',
+    '000001100100', '000001100101', '000001010010', '000001010011', '000000100100', '000000110111', '000000111000', '000000100111',
+    '000000101000', '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110', '000001100111',
+];
+// Make-up codes for runs of 64-1728 pixels, in steps of 64.
+const WHITE_MAKEUP = [
+    '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101', '01101000',
+    '01100111', '011001100', '011001101', '011010010', '011010011', '011010100', '011010101', '011010110',
+    '011010111', '011011000', '011011001', '011011010', '011011011', '010011000', '010011001', '010011010',
+    '011000', '010011011',
+];
+const BLACK_MAKEUP = [
+    '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100', '000000110101',
+    '0000001101100', '0000001101101', '0000001001010', '0000001001011', '0000001001100', '0000001001101',
+    '0000001110010', '0000001110011', '0000001110100', '0000001110101', '0000001110110', '0000001110111',
+    '0000001010010', '0000001010011', '0000001010100', '0000001010101', '0000001011010', '0000001011011',
+    '0000001100100', '0000001100101',
+];
+// Make-up codes for 1792-2560 pixels, shared by both colours.
+const EXTENDED_MAKEUP = [
+    '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100', '000000010101',
+    '000000010110', '000000010111', '000000011100', '000000011101', '000000011110', '000000011111',
+];
+
+// Two-dimensional mode codes; vertical modes map to the offset of a1 from b1,
+// which is never more than three.
+const MODE = { pass: 10, horizontal: 11 };
+const MODE_CODES: [string, number][] = [
+    ['0001', MODE.pass], ['001', MODE.horizontal],
+    ['1', 0], ['011', 1], ['000011', 2], ['0000011', 3], ['010', -1], ['000010', -2], ['0000010', -3],
+];
+
+const EOL_ZEROS = 11;
+const MAX_CODE_LENGTH = 13;
+
+// Codes are keyed with a leading 1 bit, so that e.g. '01' and '001' differ.
+const codeKey = (code: string) => parseInt(`1${code}`, 2);
+
+function buildRunTable(terminating: string[], makeup: string[]): Map<number, number> {
+    const table = new Map<number, number>();
+    terminating.forEach((code, run) => table.set(codeKey(code), run));
+    [...makeup, ...EXTENDED_MAKEUP].forEach((code, i) => table.set(codeKey(code), (i + 1) * 64));
+    return table;
+}
+
+const RUN_TABLES = [buildRunTable(WHITE_TERMINATING, WHITE_MAKEUP), buildRunTable(BLACK_TERMINATING, BLACK_MAKEUP)];
+const MODE_TABLE = new Map(MODE_CODES.map(([code, mode]) => [codeKey(code), mode]));
+
+const reverseBits = (byte: number) => {
+    let reversed = 0;
+    for (let i = 0; i < 8; i++) reversed |= ((byte >> i) & 1) << (7 - i);
+    return reversed;
+};
+
+class BitReader {
+    private position = 0;
+
+    constructor(private readonly data: Uint8Array) {}
+
+    get exhausted(): boolean {
+        return this.position >= this.data.length * 8;
+    }
+
+    // Reads past the end as zeros.
+    bit(): number {
+        const bit = this.position < this.data.length * 8 ? (this.data[this.position >> 3] >> (7 - (this.position & 7))) & 1 : 0;
+        this.position++;
+        return bit;
+    }
+
+    code(table: Map<number, number>): number {
+        let key = 1;
+        for (let length = 0; length < MAX_CODE_LENGTH; length++) {
+            key = (key << 1) | this.bit();
+            const value = table.get(key);
+            if (value !== undefined) return value;
+        }
+        throw new Error('Corrupt CCITT fax data in TIFF');
+    }
+
+    // A run is any number of make-up codes followed by one terminating code.
+    run(color: number): number {
+        let total = 0;
+        for (;;) {
+            const length = this.code(RUN_TABLES[color]);
+            total += length;
+            if (length < 64) return total;
+        }
+    }
+
+    // Skips an end-of-line code (and any fill bits before it) if one is next.
+    skipEol(): boolean {
+        const start = this.position;
+        let zeros = 0;
+        while (!this.exhausted && this.bit() === 0) zeros++;
+        if (zeros >= EOL_ZEROS) return true;
+        this.position = start;
+        return false;
+    }
+
+    alignToByte(): void {
+        this.position = Math.ceil(this.position / 8) * 8;
+    }
+}
+
+// A row as the positions where its colour changes, starting from white.
+type Changes = number[];
+
+function decode1d(reader: BitReader, columns: number): Changes {
+    const changes: Changes = [];
+    let position = 0;
+    let color = 0;
+    while (position < columns) {
+        position = Math.min(columns, position + reader.run(color));
+        changes.push(position);
+        color ^= 1;
+    }
+    return changes;
+}
+
+function decode2d(reader: BitReader, columns: number, previous: Changes): Changes {
+    // Changes at the row's end past the last real one, so b1 and b2 always exist.
+    const reference = [...previous, columns, columns, columns];
+    const changes: Changes = [];
+    let a0 = -1;
+    let color = 0;
+    let i = 0;
+    while (a0 < columns) {
+        // b1: the first change on the reference line right of a0 to the colour opposite a0's; b2 the next one.
+        while (i > 0 && reference[i - 1] > a0) i--;
+        while (reference[i] <= a0 || i % 2 !== color) i++;
+        const b1 = reference[i];
+        const b2 = reference[i + 1];
+
+        const mode = reader.code(MODE_TABLE);
+        if (mode === MODE.pass) {
+            a0 = b2;
+        } else if (mode === MODE.horizontal) {
+            const a1 = Math.min(columns, Math.max(a0, 0) + reader.run(color));
+            const a2 = Math.min(columns, a1 + reader.run(color ^ 1));
+            changes.push(a1, a2);
+            a0 = a2;
+        } else {
+            const a1 = Math.max(0, Math.min(columns, b1 + mode));
+            changes.push(a1);
+            a0 = a1;
+            color ^= 1;
+        }
+    }
+    return changes;
+}
+
+function paintRow(changes: Changes, output: Uint8Array, rowStart: number, columns: number): void {
+    for (let k = 0; k < changes.length; k += 2) {
+        const end = Math.min(columns, changes[k + 1] ?? columns);
+        for (let x = changes[k]; x < end; x++) output[rowStart + (x >> 3)] |= 0x80 >> (x & 7);
+    }
+}
+
+export function decodeCcitt(compression: number, input: Uint8Array, { columns, rows, t4Options = 0, reversedBits }: CcittOptions): Uint8Array {
+    if (compression === COMPRESSION.t4 && t4Options & 2) throw new Error('Uncompressed mode in CCITT fax TIFF pages is not supported');
+    const reader = new BitReader(reversedBits ? input.map(reverseBits) : input);
+    const rowBytes = Math.ceil(columns / 8);
+    const output = new Uint8Array(rowBytes * rows);
+    let reference: Changes = [];
+
+    for (let row = 0; row < rows && !reader.exhausted; row++) {
+        let twoDimensional = compression === COMPRESSION.t6;
+        if (compression === COMPRESSION.t4) {
+            reader.skipEol();
+            twoDimensional = (t4Options & 1) !== 0 && reader.bit() === 0;
+        }
+        const changes = twoDimensional ? decode2d(reader, columns, reference) : decode1d(reader, columns);
+        paintRow(changes, output, row * rowBytes, columns);
+        reference = changes;
+        if (compression === COMPRESSION.modifiedHuffman) reader.alignToByte();
+    }
+    return output;
+}
@@ -0,0 +1,136 @@
+import { PDFDocument } from 'pdf-lib';
+import { DetectedQrCode, FileType, QrEdit } from '../types';
+import { loadPdfDocument, modifyFileWithNewQr, OpenDocuments, renderPdfPageToCanvas } from './fileProcessor';
+import { canvasToDataUrl, ScanCanvas } from './canvasFactory';
+import { loadImagePage, renderImagePageToDataUrl } from './imageFormats';
+
+export interface CachedPage {
+    dataUrl: string;
+    codes: DetectedQrCode[];
+}
+
+// The working copy of one uploaded file. It keeps the parsed pdf.js and pdf-lib
+// documents open across edits and caches each page's render and scan, so paging
+// back and forth or editing again doesn't re-parse the PDF. An edit swaps in the
+// new file and drops only the cached page it changed.
+export class DocumentSession {
+    private currentFile: File;
+    private version = 0;
+    private readonly id = crypto.randomUUID();
+    private pdfJsDoc: Promise<any> | null = null;
+    private pdfLibDoc: Promise<PDFDocument> | null = null;
+    private pages = new Map<number, CachedPage>();
+
+    constructor(file: File, readonly fileType: FileType) {
+        this.currentFile = file;
+    }
+
+    get file(): File {
+        return this.currentFile;
+    }
+
+    // Changes whenever the file does. The scan worker keys its own parsed copy on it.
+    get key(): string {
+        return `${this.id}:${this.version}`;
+    }
+
+    private getPdfJsDocument(): Promise<any> {
+        this.pdfJsDoc ??= this.currentFile.arrayBuffer().then(loadPdfDocument);
+        return this.pdfJsDoc;
+    }
+
+    private getPdfLibDocument(): Promise<PDFDocument> {
+        this.pdfLibDoc ??= this.currentFile.arrayBuffer().then(bytes => PDFDocument.load(bytes));
+        return this.pdfLibDoc;
+    }
+
+    getCachedPage(pageNum: number): CachedPage | undefined {
+        return this.pages.get(pageNum);
+    }
+
+    // `key` is the session key read when the scan started; results from a scan
+    // that raced an edit are dropped rather than cached against the new file.
+    cachePage(pageNum: number, page: CachedPage, key: string) {
+        if (key === this.key) {
+            this.pages.set(pageNum, page);
+        }
+    }
+
+    async renderPageCanvas(pageNum: number): Promise<ScanCanvas> {
+        if (this.fileType === 'pdf') {
+            return renderPdfPageToCanvas(await this.getPdfJsDocument(), pageNum);
+        }
+        return loadImagePage(this.currentFile, pageNum);
+    }
+
+    async renderPage(pageNum: number): Promise<string> {
+        const cached = this.pages.get(pageNum);
+        if (cached) return cached.dataUrl;
+        if (this.fileType === 'pdf') {
+            return canvasToDataUrl(await this.renderPageCanvas(pageNum));
+        }
+        return renderImagePageToDataUrl(this.currentFile, pageNum);
+    }
+
+    // Applies one replacement to the working copy and returns the edited page's
+    // preview. When `verify` rejects the edited page, nothing is committed and
+    // null is returned.
+    async applyEdit(edit: QrEdit, verify?: (page: ScanCanvas) => boolean): Promise<string | null> {
+        const documents: OpenDocuments = this.fileType === 'pdf'
+            ? {
+                pdfLib: await this.getPdfLibDocument(),
+                // Only style matching needs to render the page before editing it.
+                pdfJs: edit.options?.matchOriginal ? await this.getPdfJsDocument() : undefined,
+            }
+            : {};
+
+        let result: Awaited<ReturnType<typeof modifyFileWithNewQr>>;
+        try {
+            result = await modifyFileWithNewQr(this.currentFile, this.fileType, edit.qrCode, edit.newText, edit.page, edit.options, documents);
+        } catch (error) {
+            // pdf-lib may have been part-way through editing its copy.
+            this.pdfLibDoc = null;
+            throw error;
+        }
+        const file = new File([result.newFileBlob], this.currentFile.name, { type: this.currentFile.type });
+
+        if (verify) {
+            const page = result.pdfJsDoc
+                ? await renderPdfPageToCanvas(result.pdfJsDoc, edit.page)
+                : await loadImagePage(file, edit.page);
+            if (!verify(page)) {
+                result.pdfJsDoc?.destroy();
+                // pdf-lib edited its copy in place; re-parse the unchanged file next time.
+                this.pdfLibDoc = null;
+                return null;
+            }
+        }
+
+        // pdf-lib's copy already holds the edit, so it stays open for the next one.
+        this.replaceFile(file, result.pdfJsDoc);
+        this.pages.delete(edit.page);
+        return result.newFileDataUrl;
+    }
+
+    // Swaps in `file` as a fresh starting point, e.g. the original upload before
+    // the edit history is replayed on it. Cached pages outside `changedPages`
+    // come out of the replay unchanged, so they are kept.
+    restart(file: File, changedPages: number[]) {
+        this.pdfLibDoc = null;
+        this.replaceFile(file);
+        changedPages.forEach(pageNum => this.pages.delete(pageNum));
+    }
+
+    destroy() {
+        this.replaceFile(this.currentFile);
+        this.pdfLibDoc = null;
+        this.pages.clear();
+    }
+
+    private replaceFile(file: File, pdfJsDoc?: any) {
+        this.pdfJsDoc?.then(doc => doc.destroy(), () => {});
+        this.pdfJsDoc = pdfJsDoc ? Promise.resolve(pdfJsDoc) : null;
+        this.currentFile = file;
+        this.version++;
+    }
+}
@@ -0,0 +1,91 @@
+import { DetectedQrCode, QrEdit, QrReplaceOptions } from '../types';
+import { DocumentSession } from './documentSession';
+import { verifyEdit } from './qrVerifier';
+import { isSameQrCode } from '../utils/helpers';
+
+export async function applyEdits(session: DocumentSession, edits: QrEdit[]): Promise<File> {
+    for (const edit of edits) {
+        await session.applyEdit(edit);
+    }
+    return session.file;
+}
+
+// Applies each edit and re-decodes it. An edit whose code doesn't scan back as
+// its new text is rolled back, and the next edit builds on the last good file.
+// `dataUrl` previews the page of the last edit that was kept.
+export async function applyVerifiedEdits(
+    session: DocumentSession,
+    edits: QrEdit[]
+): Promise<{ dataUrl: string | null, applied: QrEdit[], failed: QrEdit[] }> {
+    const applied: QrEdit[] = [];
+    const failed: QrEdit[] = [];
+    let dataUrl: string | null = null;
+    for (const edit of edits) {
+        const preview = await session.applyEdit(edit, page => verifyEdit(page, edit));
+        if (preview) {
+            dataUrl = preview;
+            applied.push({ ...edit, verification: 'verified', appliedAt: edit.appliedAt ?? new Date().toISOString() });
+        } else {
+            failed.push({ ...edit, verification: 'failed' });
+        }
+    }
+    return { dataUrl, applied, failed };
+}
+
+// Rebuilds the working copy from scratch. Used whenever an edit is removed from
+// the middle or end of the history, since replacements can't be peeled off a file.
+// `removedEdits` tells the session which cached pages the rebuild changes.
+export async function replayEdits(
+    session: DocumentSession,
+    originalFile: File,
+    edits: QrEdit[],
+    removedEdits: QrEdit[]
+): Promise<File> {
+    session.restart(originalFile, removedEdits.map(edit => edit.page));
+    return applyEdits(session, edits);
+}
+
+// Builds the edit that places a new code at `placeholder`'s location. There is
+// nothing underneath to remove in place and no original style to match, so the
+// code is always drawn over the page as it is.
+export function createInsertEdit(
+    placeholder: DetectedQrCode,
+    page: number,
+    index: number,
+    newText: string,
+    options: QrReplaceOptions
+): QrEdit {
+    return {
+        id: crypto.randomUUID(),
+        qrCode: placeholder,
+        page,
+        index,
+        oldText: '',
+        newText,
+        options: { ...options, pdfReplaceMode: 'cover', matchOriginal: false },
+        inserted: true,
+    };
+}
+
+// Splits off the trailing undo step: the last edit, plus any edits sharing its batch.
+export function splitLastStep(edits: QrEdit[]): { rest: QrEdit[], step: QrEdit[] } {
+    if (edits.length === 0) return { rest: [], step: [] };
+    const { batchId } = edits[edits.length - 1];
+    let start = edits.length - 1;
+    while (batchId && start > 0 && edits[start - 1].batchId === batchId) {
+        start--;
+    }
+    return { rest: edits.slice(0, start), step: edits.slice(start) };
+}
+
+// Latest payload per QR id; later edits of the same code win. `codes` from
+// another scan (the document inventory beside a page's codes) pick up edits
+// made through their counterparts, matched by page and location.
+export function getEditedPayloads(edits: QrEdit[], codes: DetectedQrCode[] = []): Map<string, string> {
+    const payloads = new Map(edits.map(edit => [edit.qrCode.id, edit.newText]));
+    codes.forEach(code => {
+        const latest = [...edits].reverse().find(edit => edit.qrCode.id === code.id || isSameQrCode(edit.qrCode, code));
+        if (latest) payloads.set(code.id, latest.newText);
+    });
+    return payloads;
+}
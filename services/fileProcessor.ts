@@ -1,111 +1,232 @@
-import jsQR from 'jsqr';
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import qrcode from 'qrcode';
-import { DetectedQrCode, FileType } from '../types';
+import { degrees, drawImage, drawRectangle, drawSvgPath, PDFDocument, PDFImage, PDFOperator, rgb, StandardFonts } from 'pdf-lib';
+import { DetectedQrCode, FileType, QrGenerationOptions, QrReplaceOptions } from '../types';
+import { detectQrCodesRobust } from './qrDetector';
+import { removeQrInPlace } from './pdfInPlaceReplace';
+import { createQrDataUrl, createQrSvgPath, getQrModuleCount, DEFAULT_GENERATION_OPTIONS } from './qrGenerator';
+import { getModuleCount, getQrCorners, getQrVersion, hexToRgb, scaleQrLocation } from '../utils/helpers';
+import { sampleQrStyle } from './qrStyleSampler';
+import { drawQrInPerspective, sampleSurroundingColor } from './imagePerspective';
+import { canvasToDataUrl, createCanvas, getContext2d, OffscreenCanvasFactory, ScanCanvas } from './canvasFactory';
+import { encodeImagePage, getImagePageCount, loadImagePage, renderImagePageToDataUrl } from './imageFormats';
+import { drawQrIntoSvg } from './svgDocument';
+import { prepareIncrementalSave, saveIncrementally } from './pdfIncrementalSave';
+import { isLinkablePayload, normalizePdfRect, rectsOverlap, updateLinkAnnotations } from './pdfLinkAnnotations';
+import { Rect } from './pdfContentStream';
 
-const RENDER_SCALE = 2.0;
+export const RENDER_SCALE = 2.0;
 
-async function renderPdfPageToDataUrl(pdfDoc: any, pageNum: number): Promise<string> {
+// pdf.js is a global script on the page; the scan worker imports the same
+// build, so it is looked up on `globalThis` rather than `window`.
+export function loadPdfDocument(data: ArrayBuffer | Uint8Array): Promise<any> {
+    const inWorker = typeof document === 'undefined';
+    return (globalThis as any).pdfjsLib.getDocument({
+        data,
+        // Workers have no DOM fonts or canvases: draw glyphs as paths and use OffscreenCanvas.
+        ...(inWorker ? { disableFontFace: true, canvasFactory: new OffscreenCanvasFactory() } : {}),
+    }).promise;
+}
+
+export async function renderPdfPageToCanvas(pdfDoc: any, pageNum: number, scale = RENDER_SCALE): Promise<ScanCanvas> {
     const page = await pdfDoc.getPage(pageNum);
-    const viewport = page.getViewport({ scale: RENDER_SCALE });
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Could not get canvas context');
-    
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
+    const viewport = page.getViewport({ scale });
+    const canvas = createCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
 
     const renderContext = {
-      canvasContext: ctx,
+      canvasContext: getContext2d(canvas),
       viewport: viewport,
     };
     
     await page.render(renderContext).promise;
-    return canvas.toDataURL('image/png');
+    return canvas;
 }
 
-async function scanCanvasForQrCodes(canvas: HTMLCanvasElement): Promise<DetectedQrCode[]> {
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return [];
-    
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const codes = jsQR(imageData.data, imageData.width, imageData.height);
-    if (!codes) return [];
-    
-    // jsQR can return a single object or an array, so we normalize it
-    const codesArray = Array.isArray(codes) ? codes : [codes];
+async function scanCanvasForQrCodes(canvas: ScanCanvas, pageNum?: number, pdfDoc?: any): Promise<DetectedQrCode[]> {
+    // PDFs are re-rendered for the multi-scale passes so small codes gain real detail.
+    const renderAtScale = pdfDoc && pageNum
+        ? (factor: number) => renderPdfPageToCanvas(pdfDoc, pageNum, RENDER_SCALE * factor)
+        : undefined;
+    const codes = await detectQrCodesRobust(canvas, renderAtScale);
+    const links = pdfDoc && pageNum ? await getPageLinks(pdfDoc, pageNum) : [];
+
+    return codes.map((code, index) => {
+        const bounds = getBounds(getQrCorners(code.location));
+        return {
+            ...code,
+            id: `${Date.now()}-${pageNum ?? 1}-${index}`,
+            page: pageNum,
+            linkUri: links.find(link => rectsOverlap(link.rect, bounds))?.uri,
+        };
+    });
+}
 
-    return codesArray.map((code, index) => ({
-        ...code,
-        id: `${Date.now()}-${index}`
-    }));
+function getBounds(points: { x: number, y: number }[]): Rect {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
 }
 
+// The page's web links, positioned in canvas pixels at RENDER_SCALE.
+async function getPageLinks(pdfDoc: any, pageNum: number): Promise<{ rect: Rect, uri: string }[]> {
+    const page = await pdfDoc.getPage(pageNum);
+    const viewport = page.getViewport({ scale: RENDER_SCALE });
+    const annotations: any[] = await page.getAnnotations();
+    return annotations
+        .filter(annotation => annotation.subtype === 'Link' && annotation.url)
+        .map(annotation => ({ rect: normalizePdfRect(viewport.convertToViewportRectangle(annotation.rect)), uri: annotation.url }));
+}
 
-export async function processFileForQrCodes(file: File, pageNum: number): Promise<{ codes: DetectedQrCode[], dataUrl: string, pageCount?: number }> {
-    const fileBuffer = await file.arrayBuffer();
-    
-    if (file.type === 'application/pdf') {
-        const pdfDoc = await (window as any).pdfjsLib.getDocument({ data: fileBuffer }).promise;
-        const dataUrl = await renderPdfPageToDataUrl(pdfDoc, pageNum);
-
-        const img = new Image();
-        return new Promise((resolve, reject) => {
-            img.onload = async () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = img.width;
-                canvas.height = img.height;
-                const ctx = canvas.getContext('2d');
-                if(!ctx) return reject(new Error("No canvas context"));
-                ctx.drawImage(img, 0, 0);
-                const codes = await scanCanvasForQrCodes(canvas);
-                resolve({ codes, dataUrl, pageCount: pdfDoc.numPages });
-            };
-            img.onerror = () => reject(new Error("Failed to load PDF page as image"));
-            img.src = dataUrl;
-        });
 
+// `onRendered` fires as soon as the page image is ready, before the (much
+// slower) detection passes run, so the viewer can show it straight away.
+export async function processFileForQrCodes(
+    file: File,
+    pageNum: number,
+    onRendered?: (dataUrl: string, pageCount?: number) => void
+): Promise<{ codes: DetectedQrCode[], dataUrl: string, pageCount?: number }> {
+    if (file.type === 'application/pdf') {
+        const pdfDoc = await loadPdfDocument(await file.arrayBuffer());
+        try {
+            return await processPdfPageForQrCodes(pdfDoc, pageNum, onRendered);
+        } finally {
+            pdfDoc.destroy();
+        }
     } else if (file.type.startsWith('image/')) {
-        const dataUrl = URL.createObjectURL(file);
-        const img = new Image();
-        return new Promise((resolve, reject) => {
-            img.onload = async () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = img.width;
-                canvas.height = img.height;
-                const ctx = canvas.getContext('2d');
-                if(!ctx) return reject(new Error("No canvas context"));
-                ctx.drawImage(img, 0, 0);
-                const codes = await scanCanvasForQrCodes(canvas);
-                resolve({ codes, dataUrl });
-                URL.revokeObjectURL(dataUrl);
-            };
-            img.onerror = () => reject(new Error("Failed to load image"));
-            img.src = dataUrl;
-        });
+        const pageCount = await getImagePageCount(file);
+        const dataUrl = await renderImagePageToDataUrl(file, pageNum);
+        onRendered?.(dataUrl, pageCount);
+        const codes = await scanCanvasForQrCodes(await loadImagePage(file, pageNum), pageNum);
+        return { codes, dataUrl, pageCount };
     }
 
     throw new Error('Unsupported file type');
 }
 
 
+// Same as `processFileForQrCodes`, for a PDF the caller already has open.
+export async function processPdfPageForQrCodes(
+    pdfDoc: any,
+    pageNum: number,
+    onRendered?: (dataUrl: string, pageCount?: number) => void
+): Promise<{ codes: DetectedQrCode[], dataUrl: string, pageCount?: number }> {
+    const canvas = await renderPdfPageToCanvas(pdfDoc, pageNum);
+    const dataUrl = await canvasToDataUrl(canvas);
+    onRendered?.(dataUrl, pdfDoc.numPages);
+    const codes = await scanCanvasForQrCodes(canvas, pageNum, pdfDoc);
+    return { codes, dataUrl, pageCount: pdfDoc.numPages };
+}
+
+
+export interface ScanProgress {
+    current: number;
+    total: number;
+}
+
+// Scans every page of a PDF or multi-page image, filling in `page` on each
+// code. Rejects with an AbortError as soon as the signal fires, checked between pages.
+export async function scanDocumentForQrCodes(
+    file: File,
+    onProgress?: (progress: ScanProgress) => void,
+    signal?: AbortSignal
+): Promise<DetectedQrCode[]> {
+    if (file.type !== 'application/pdf') {
+        const total = await getImagePageCount(file);
+        const codes: DetectedQrCode[] = [];
+        for (let pageNum = 1; pageNum <= total; pageNum++) {
+            if (signal?.aborted) throw new DOMException('Scan cancelled', 'AbortError');
+            onProgress?.({ current: pageNum, total });
+            codes.push(...await scanCanvasForQrCodes(await loadImagePage(file, pageNum), pageNum));
+        }
+        return codes;
+    }
+    const pdfDoc = await loadPdfDocument(await file.arrayBuffer());
+    try {
+        return await scanPdfDocumentForQrCodes(pdfDoc, onProgress, signal);
+    } finally {
+        pdfDoc.destroy();
+    }
+}
+
+export async function scanPdfDocumentForQrCodes(
+    pdfDoc: any,
+    onProgress?: (progress: ScanProgress) => void,
+    signal?: AbortSignal
+): Promise<DetectedQrCode[]> {
+    const total = pdfDoc.numPages;
+    const codes: DetectedQrCode[] = [];
+    for (let pageNum = 1; pageNum <= total; pageNum++) {
+        if (signal?.aborted) throw new DOMException('Scan cancelled', 'AbortError');
+        onProgress?.({ current: pageNum, total });
+        const canvas = await renderPdfPageToCanvas(pdfDoc, pageNum);
+        codes.push(...await scanCanvasForQrCodes(canvas, pageNum, pdfDoc));
+    }
+    return codes;
+}
+
+
+// Renders a page (or the image itself) at the same scale detection uses, so
+// QR locations line up with its pixels.
+export async function renderFileToCanvas(file: File, fileType: FileType, pageNum: number): Promise<ScanCanvas> {
+    if (fileType === 'pdf') {
+        const pdfDoc = await loadPdfDocument(await file.arrayBuffer());
+        try {
+            return await renderPdfPageToCanvas(pdfDoc, pageNum);
+        } finally {
+            pdfDoc.destroy();
+        }
+    }
+    return loadImagePage(file, pageNum);
+}
+
+
+// Already-parsed copies of the file being modified, kept open across edits by
+// a DocumentSession so each edit doesn't re-parse the whole PDF.
+export interface OpenDocuments {
+    // Edited in place: if the caller discards the result it must discard this too.
+    pdfLib?: PDFDocument;
+    pdfJs?: any;
+}
+
+// For PDFs, `pdfJsDoc` is the edited document already parsed by pdf.js for the
+// preview. The caller owns it and must destroy it.
 export async function modifyFileWithNewQr(
     originalFile: File,
     fileType: FileType,
     qrToReplace: DetectedQrCode,
     newText: string,
-    currentPage: number
-): Promise<{ newFileDataUrl: string, newFileBlob: Blob }> {
-    const newQrDataUrl = await qrcode.toDataURL(newText, {
-        errorCorrectionLevel: 'H',
-        margin: 1,
-    });
-    
+    currentPage: number,
+    options: QrReplaceOptions = {},
+    documents: OpenDocuments = {}
+): Promise<{ newFileDataUrl: string, newFileBlob: Blob, pdfJsDoc?: any }> {
+    let generation = options.generation ?? DEFAULT_GENERATION_OPTIONS;
+    let drawLocation = qrToReplace.location;
+
+    if (options.matchOriginal) {
+        const canvas = documents.pdfJs
+            ? await renderPdfPageToCanvas(documents.pdfJs, currentPage)
+            : await renderFileToCanvas(originalFile, fileType, currentPage);
+        const style = sampleQrStyle(canvas, qrToReplace);
+        generation = {
+            ...generation,
+            darkColor: style.darkColor,
+            lightColor: style.lightColor,
+            margin: style.margin,
+            // Keeping the original version keeps the original module size whenever the payload fits.
+            versionMode: 'min',
+            version: getQrVersion(qrToReplace),
+        };
+        // Place the new symbol exactly over the old one, with its quiet zone outside it.
+        const modules = getQrModuleCount(newText, generation);
+        drawLocation = scaleQrLocation(qrToReplace.location, (modules + generation.margin * 2) / modules);
+    }
+
     if (fileType === 'pdf') {
-        return modifyPdf(originalFile, qrToReplace, newQrDataUrl, currentPage);
+        return modifyPdf(originalFile, qrToReplace, newText, currentPage, { ...options, generation }, drawLocation, documents.pdfLib);
+    } else if (fileType === 'image' && originalFile.type === 'image/svg+xml') {
+        return modifySvg(originalFile, qrToReplace, newText, generation, drawLocation);
     } else if (fileType === 'image') {
-        return modifyImage(originalFile, qrToReplace, newQrDataUrl);
+        // The image path only uses the PNG as a module mask and applies colours while warping.
+        const maskDataUrl = await createQrDataUrl(newText, { ...generation, darkColor: '#000000', lightColor: '#ffffff' });
+        return modifyImage(originalFile, qrToReplace, maskDataUrl, generation, currentPage, options.jpegQuality, drawLocation);
     }
     
     throw new Error('Unsupported file type for modification.');
@@ -115,20 +236,29 @@ export async function modifyFileWithNewQr(
 async function modifyPdf(
     pdfFile: File,
     qrToReplace: DetectedQrCode,
-    newQrDataUrl: string,
-    pageNum: number
-): Promise<{ newFileDataUrl: string, newFileBlob: Blob }> {
-    const existingPdfBytes = await pdfFile.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(existingPdfBytes);
+    newText: string,
+    pageNum: number,
+    options: QrReplaceOptions,
+    drawLocation: DetectedQrCode['location'] = qrToReplace.location,
+    openPdfDoc?: PDFDocument
+): Promise<{ newFileDataUrl: string, newFileBlob: Blob, pdfJsDoc: any }> {
+    const baseBytes = options.pdfSaveMode === 'incremental' ? new Uint8Array(await pdfFile.arrayBuffer()) : undefined;
+    const pdfDoc = openPdfDoc ?? await PDFDocument.load(await pdfFile.arrayBuffer());
+    if (baseBytes) prepareIncrementalSave(pdfDoc, baseBytes);
     const page = pdfDoc.getPages()[pageNum - 1];
     
     const { width: pageWidth, height: pageHeight } = page.getSize();
     
-    const newQrImageBytes = await fetch(newQrDataUrl).then(res => res.arrayBuffer());
-    const newQrImage = await pdfDoc.embedPng(newQrImageBytes);
+    const generation = options.generation ?? DEFAULT_GENERATION_OPTIONS;
+    const isVector = (options.pdfQrFormat ?? 'vector') === 'vector';
+    let newQrImage: PDFImage | undefined;
+    if (!isVector) {
+        const newQrImageBytes = await fetch(await createQrDataUrl(newText, generation)).then(res => res.arrayBuffer());
+        newQrImage = await pdfDoc.embedPng(newQrImageBytes);
+    }
     
     // Fix: Use correct corner property names from the 'jsqr' location object.
-    const { topLeftCorner: topLeft, topRightCorner: topRight, bottomLeftCorner: bottomLeft } = qrToReplace.location;
+    const { topLeftCorner: topLeft, topRightCorner: topRight, bottomLeftCorner: bottomLeft } = drawLocation;
     
     // Calculate position and size in PDF points.
     // We need to convert from canvas pixel coordinates (scaled by RENDER_SCALE, y-down from top-left)
@@ -141,98 +271,153 @@ async function modifyPdf(
     const qrXInPoints = topLeft.x / RENDER_SCALE;
     const qrYInPoints = pageHeight - (topLeft.y / RENDER_SCALE) - qrHeightInPoints;
     
-    // Cover old QR code with a white rectangle
-    page.drawRectangle({
+    // The old code's bounds in PDF points.
+    const bounds = getBounds(getQrCorners(qrToReplace.location).map(c => ({ x: c.x / RENDER_SCALE, y: pageHeight - c.y / RENDER_SCALE })));
+
+    // The new code is drawn into a content stream of its own rather than through
+    // page.drawX: pdf-lib reuses one stream per page and compresses it only once,
+    // so a second edit of the same page in a session would be lost on save.
+    const placement = {
         x: qrXInPoints,
         y: qrYInPoints,
         width: qrWidthInPoints,
         height: qrHeightInPoints,
-        color: rgb(1, 1, 1),
-    });
+        rotate: degrees(0),
+        xSkew: degrees(0),
+        ySkew: degrees(0),
+    };
+    const operators: PDFOperator[] = [];
+
+    let swappedImage = false;
+    if (options.pdfReplaceMode === 'inPlace') {
+        // The original's quiet zone usually belongs to the same image or path.
+        const moduleSize = Math.max(bounds.width, bounds.height) / getModuleCount(qrToReplace);
+        ({ swappedImage } = await removeQrInPlace(pdfDoc, page, bounds, moduleSize, newQrImage));
+    } else if (!isVector) {
+        // Cover old QR code with a white rectangle
+        operators.push(...drawRectangle({
+            ...placement,
+            color: rgb(1, 1, 1),
+            borderWidth: 0,
+            borderColor: undefined,
+        }));
+    }
 
     // Draw new QR code
-    page.drawImage(newQrImage, {
-        x: qrXInPoints,
-        y: qrYInPoints,
-        width: qrWidthInPoints,
-        height: qrHeightInPoints,
-    });
+    if (isVector) {
+        const { path, size } = createQrSvgPath(newText, generation);
+        const [darkR, darkG, darkB] = hexToRgb(generation.darkColor).map(c => c / 255);
+        const [lightR, lightG, lightB] = hexToRgb(generation.lightColor).map(c => c / 255);
+        // The quiet zone and light modules are painted as one background rectangle.
+        operators.push(...drawRectangle({
+            ...placement,
+            color: rgb(lightR, lightG, lightB),
+            borderWidth: 0,
+            borderColor: undefined,
+        }));
+        // SVG paths are drawn y-down from the given top-left corner.
+        operators.push(...drawSvgPath(path, {
+            x: qrXInPoints,
+            y: qrYInPoints + qrHeightInPoints,
+            scale: Math.min(qrWidthInPoints, qrHeightInPoints) / size,
+            color: rgb(darkR, darkG, darkB),
+            borderWidth: 0,
+            borderColor: undefined,
+        }));
+    } else if (newQrImage && !swappedImage) {
+        operators.push(...drawImage(page.node.newXObject('Image', newQrImage.ref), placement));
+    }
 
-    const pdfBytes = await pdfDoc.save();
+    if (operators.length > 0) {
+        page.node.addContentStream(pdfDoc.context.register(pdfDoc.context.contentStream(operators)));
+    }
+
+    if (options.pdfUpdateLinks && isLinkablePayload(newText)) {
+        updateLinkAnnotations(page, bounds, newText.trim());
+    }
+
+    const pdfBytes = baseBytes ? await saveIncrementally(pdfDoc, baseBytes) : await pdfDoc.save();
     const newFileBlob = new Blob([pdfBytes], { type: 'application/pdf' });
     
-    const pdfJsDoc = await (window as any).pdfjsLib.getDocument({ data: pdfBytes }).promise;
-    const newFileDataUrl = await renderPdfPageToDataUrl(pdfJsDoc, pageNum);
+    const pdfJsDoc = await loadPdfDocument(pdfBytes);
+    const newFileDataUrl = await canvasToDataUrl(await renderPdfPageToCanvas(pdfJsDoc, pageNum));
+
+    return { newFileDataUrl, newFileBlob, pdfJsDoc };
+}
 
-    return { newFileDataUrl, newFileBlob };
+// The colour to paint over the old code: the real surround when the light
+// colour is the default white, an explicitly chosen light colour as-is.
+function getCoverColor(canvas: ScanCanvas, qrToReplace: DetectedQrCode, generation: QrGenerationOptions): [number, number, number] {
+    if (generation.lightColor.toLowerCase() !== DEFAULT_GENERATION_OPTIONS.lightColor) {
+        return hexToRgb(generation.lightColor);
+    }
+    const { topLeftCorner: topLeft, topRightCorner: topRight, bottomLeftCorner: bottomLeft } = qrToReplace.location;
+    const side = (Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y) + Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y)) / 2;
+    const moduleSize = side / getModuleCount(qrToReplace);
+    const fullImageData = getContext2d(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    const background = sampleSurroundingColor(fullImageData, getQrCorners(qrToReplace.location), moduleSize * 2);
+    // A dark surround would make the light modules unreadable; fall back to white.
+    if (background[0] * 0.299 + background[1] * 0.587 + background[2] * 0.114 < 140) {
+        return [255, 255, 255];
+    }
+    return background;
 }
 
 async function modifyImage(
     imageFile: File,
     qrToReplace: DetectedQrCode,
-    newQrDataUrl: string
+    newQrDataUrl: string,
+    generation: QrGenerationOptions,
+    pageNum: number,
+    jpegQuality?: number,
+    drawLocation: DetectedQrCode['location'] = qrToReplace.location
 ): Promise<{ newFileDataUrl: string, newFileBlob: Blob }> {
+    // 1. Draw original image
+    const canvas = await loadImagePage(imageFile, pageNum);
+    const ctx = getContext2d(canvas) as CanvasRenderingContext2D;
+    const newQrImg = await createImageBitmap(await fetch(newQrDataUrl).then(res => res.blob()));
 
-    return new Promise((resolve, reject) => {
-        const originalImg = new Image();
-        const newQrImg = new Image();
-        
-        let loadedCount = 0;
-        const onLoaded = () => {
-            loadedCount++;
-            if (loadedCount === 2) {
-                const canvas = document.createElement('canvas');
-                canvas.width = originalImg.width;
-                canvas.height = originalImg.height;
-                const ctx = canvas.getContext('2d');
-                if(!ctx) return reject(new Error("No canvas context"));
-
-                // 1. Draw original image
-                ctx.drawImage(originalImg, 0, 0);
-
-                // 2. Cover old QR
-                // Fix: Use correct corner property names from the 'jsqr' location object.
-                const { topLeftCorner: topLeft, topRightCorner: topRight, bottomLeftCorner: bottomLeft, bottomRightCorner: bottomRight } = qrToReplace.location;
-                ctx.beginPath();
-                ctx.moveTo(topLeft.x, topLeft.y);
-                ctx.lineTo(topRight.x, topRight.y);
-                ctx.lineTo(bottomRight.x, bottomRight.y);
-                ctx.lineTo(bottomLeft.x, bottomLeft.y);
-                ctx.closePath();
-                ctx.fillStyle = 'white';
-                ctx.fill();
-
-                // 3. Draw new QR
-                const width = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y);
-                const height = Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y);
-                
-                // Approximate rotation and draw rotated. A simpler axis-aligned box is easier.
-                const minX = Math.min(topLeft.x, topRight.x, bottomLeft.x, bottomRight.x);
-                const minY = Math.min(topLeft.y, topRight.y, bottomLeft.y, bottomRight.y);
-                const maxX = Math.max(topLeft.x, topRight.x, bottomLeft.x, bottomRight.x);
-                const maxY = Math.max(topLeft.y, topRight.y, bottomLeft.y, bottomRight.y);
-                const boxWidth = maxX - minX;
-                const boxHeight = maxY - minY;
-
-                ctx.drawImage(newQrImg, minX, minY, boxWidth, boxHeight);
-                
-                const newFileDataUrl = canvas.toDataURL(imageFile.type);
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        resolve({ newFileDataUrl, newFileBlob: blob });
-                    } else {
-                        reject(new Error("Failed to create blob from canvas"));
-                    }
-                }, imageFile.type);
-            }
-        };
-        
-        originalImg.onload = onLoaded;
-        newQrImg.onload = onLoaded;
-        originalImg.onerror = () => reject(new Error("Failed to load original image for modification"));
-        newQrImg.onerror = () => reject(new Error("Failed to load new QR image for modification"));
-        
-        originalImg.src = URL.createObjectURL(imageFile);
-        newQrImg.src = newQrDataUrl;
+    try {
+        // 2. Cover old QR with the colour of the surrounding background
+        const background = getCoverColor(canvas, qrToReplace, generation);
+        const corners = getQrCorners(qrToReplace.location);
+        ctx.beginPath();
+        corners.forEach(({ x, y }, i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+        ctx.closePath();
+        ctx.fillStyle = `rgb(${background.join(', ')})`;
+        ctx.fill();
+
+        // 3. Draw new QR, warped onto the detected corners so rotated or
+        // skewed codes in photos keep their shape
+        drawQrInPerspective(ctx, newQrImg, getQrCorners(drawLocation), hexToRgb(generation.darkColor), background);
+    } finally {
+        newQrImg.close();
+    }
+
+    const newFileBlob = await encodeImagePage(imageFile, pageNum, canvas, jpegQuality);
+    // The preview shows the saved file, recompression and colour profile included.
+    return { newFileDataUrl: await renderImagePageToDataUrl(newFileBlob, pageNum), newFileBlob };
+}
+
+// SVGs stay vector: the old code is covered and the new one drawn as shapes,
+// positioned from the raster detection ran on.
+async function modifySvg(
+    svgFile: File,
+    qrToReplace: DetectedQrCode,
+    newText: string,
+    generation: QrGenerationOptions,
+    drawLocation: DetectedQrCode['location'] = qrToReplace.location
+): Promise<{ newFileDataUrl: string, newFileBlob: Blob }> {
+    const background = getCoverColor(await loadImagePage(svgFile), qrToReplace, generation);
+    const { path, size } = createQrSvgPath(newText, generation);
+    const newFileBlob = await drawQrIntoSvg(svgFile, {
+        coverCorners: getQrCorners(qrToReplace.location),
+        coverColor: `rgb(${background.join(', ')})`,
+        drawCorners: getQrCorners(drawLocation),
+        path,
+        size,
+        darkColor: generation.darkColor,
+        lightColor: generation.lightColor === DEFAULT_GENERATION_OPTIONS.lightColor ? `rgb(${background.join(', ')})` : generation.lightColor,
     });
-}
\ No newline at end of file
+    return { newFileDataUrl: await canvasToDataUrl(await loadImagePage(newFileBlob)), newFileBlob };
+}
@@ -0,0 +1,145 @@
+import { blobToDataUrl, canvasToBlob, canvasToDataUrl, createCanvas, getContext2d, loadImageToCanvas, ScanCanvas } from './canvasFactory';
+import { countTiffPages, decodeTiffPage, replaceTiffPage, TiffPage } from './tiffCodec';
+import { rasterizeSvg } from './svgDocument';
+import { copyImageMetadata, DEFAULT_JPEG_QUALITY, estimateJpegQuality, getImageOrientation, removeJpegThumbnail, toStoredOrientation } from './imageMetadata';
+import { replaceChangedJpegBlocks } from './jpegBlocks';
+
+export type FileFormat = 'pdf' | 'png' | 'jpeg' | 'webp' | 'tiff' | 'svg';
+
+const MIME_TYPES: Record<FileFormat, string> = {
+    pdf: 'application/pdf',
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    tiff: 'image/tiff',
+    svg: 'image/svg+xml',
+};
+
+const FORMAT_LABELS: Record<FileFormat, string> = {
+    pdf: 'PDF',
+    png: 'PNG',
+    jpeg: 'JPEG',
+    webp: 'WebP',
+    tiff: 'TIFF',
+    svg: 'SVG',
+};
+
+// PDF readers accept a header anywhere in the first kilobyte; so do we.
+const HEADER_BYTES = 1024;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+    return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(text: string): number[] {
+    return [...text].map(c => c.charCodeAt(0));
+}
+
+export function detectFileFormat(header: Uint8Array): FileFormat | null {
+    if (startsWith(header, [0x89, ...ascii('PNG\r\n'), 0x1a, 0x0a])) return 'png';
+    if (startsWith(header, [0xff, 0xd8, 0xff])) return 'jpeg';
+    if (startsWith(header, ascii('RIFF')) && startsWith(header, ascii('WEBP'), 8)) return 'webp';
+    if (startsWith(header, [...ascii('II'), 42, 0]) || startsWith(header, [...ascii('MM'), 0, 42])) return 'tiff';
+
+    const text = new TextDecoder().decode(header);
+    if (text.includes('%PDF-')) return 'pdf';
+    // An XML declaration, comments or a doctype may come before the root element.
+    if (/^\s*</.test(text) && /<svg[\s>]/i.test(text)) return 'svg';
+    return null;
+}
+
+export function getFileFormat(file: Blob): FileFormat | null {
+    const entry = Object.entries(MIME_TYPES).find(([, mime]) => mime === file.type);
+    return entry ? entry[0] as FileFormat : null;
+}
+
+// Browsers guess `file.type` from the extension, and leave it empty for formats
+// they don't know, so the type is set from the file's own header instead.
+// Resolves to null for anything we can't open.
+export async function identifyFile(file: File): Promise<File | null> {
+    const format = detectFileFormat(new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer()));
+    if (!format) return null;
+    const type = MIME_TYPES[format];
+    return file.type === type ? file : new File([file], file.name, { type, lastModified: file.lastModified });
+}
+
+// SVGs can only be rasterised on the main thread.
+export function canDecodeInWorker(file: Blob): boolean {
+    return getFileFormat(file) !== 'svg';
+}
+
+export async function getImagePageCount(file: Blob): Promise<number> {
+    if (getFileFormat(file) !== 'tiff') return 1;
+    return countTiffPages(new Uint8Array(await file.arrayBuffer()));
+}
+
+function tiffPageToCanvas(page: TiffPage): ScanCanvas {
+    const canvas = createCanvas(page.width, page.height);
+    const ctx = getContext2d(canvas);
+    const imageData = ctx.createImageData(page.width, page.height);
+    imageData.data.set(page.data);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+}
+
+// Decodes one page (1-based) of an image file onto a canvas. Everything but
+// TIFF has a single page.
+export async function loadImagePage(file: Blob, pageNum = 1): Promise<ScanCanvas> {
+    switch (getFileFormat(file)) {
+        case 'tiff': return tiffPageToCanvas(await decodeTiffPage(new Uint8Array(await file.arrayBuffer()), pageNum - 1));
+        case 'svg': return rasterizeSvg(file);
+        default: return loadImageToCanvas(file);
+    }
+}
+
+// Formats every browser can show are previewed as-is; the rest go through a canvas.
+export async function renderImagePageToDataUrl(file: Blob, pageNum = 1): Promise<string> {
+    const format = getFileFormat(file);
+    if (format === 'png' || format === 'jpeg' || format === 'webp') {
+        return blobToDataUrl(file);
+    }
+    return canvasToDataUrl(await loadImagePage(file, pageNum));
+}
+
+// Saves `canvas` as page `pageNum` of `file`, in the file's own format and with
+// its metadata. The other pages of a TIFF are copied over unchanged. JPEGs are
+// saved at `jpegQuality` (1-100); without one, only the blocks that changed are
+// encoded again, or if the file can't be rewritten that way, the whole picture
+// at the quality the original appears to have been saved at.
+export async function encodeImagePage(file: Blob, pageNum: number, canvas: ScanCanvas, jpegQuality?: number): Promise<Blob> {
+    const format = getFileFormat(file);
+    if (format === 'tiff') {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const { width, height } = canvas;
+        const page: TiffPage = {
+            ...await decodeTiffPage(bytes, pageNum - 1),
+            width,
+            height,
+            data: getContext2d(canvas).getImageData(0, 0, width, height).data,
+        };
+        return new Blob([await replaceTiffPage(bytes, pageNum - 1, page)], { type: MIME_TYPES.tiff });
+    }
+
+    if (format !== 'png' && format !== 'jpeg' && format !== 'webp') {
+        throw new Error('Unsupported file type for modification.');
+    }
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    // The original's EXIF is copied over, so its orientation must still hold.
+    const orientation = getImageOrientation(bytes, MIME_TYPES[format]);
+    canvas = toStoredOrientation(canvas, orientation);
+    if (format === 'jpeg' && jpegQuality === undefined) {
+        const before = toStoredOrientation(await loadImagePage(file, pageNum), orientation);
+        const pixels = (source: ScanCanvas) => getContext2d(source).getImageData(0, 0, source.width, source.height);
+        const rewritten = replaceChangedJpegBlocks(bytes, pixels(before), pixels(canvas));
+        if (rewritten) return new Blob([removeJpegThumbnail(rewritten)], { type: file.type });
+    }
+    let quality: number | undefined;
+    if (format === 'jpeg') {
+        quality = (jpegQuality ?? estimateJpegQuality(bytes) ?? DEFAULT_JPEG_QUALITY) / 100;
+    }
+    const blob = await canvasToBlob(canvas, file.type, quality);
+    if (blob.type !== file.type) {
+        throw new Error(`This browser can't save ${FORMAT_LABELS[format]} images.`);
+    }
+    return copyImageMetadata(file, blob, canvas.width, canvas.height);
+}
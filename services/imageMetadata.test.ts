@@ -0,0 +1,82 @@
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { copyImageMetadata, getImageOrientation } from './imageMetadata';
+
+const THUMBNAIL = [0xff, 0xd8, 0xaa, 0xbb, 0xcc, 0xff, 0xd9];
+
+// A little-endian EXIF block: IFD0 with an orientation of 6, linked to an IFD1
+// whose JPEG thumbnail follows it.
+function exifWithThumbnail(): Uint8Array {
+    const bytes = new Uint8Array(8 + 18 + 30 + THUMBNAIL.length);
+    const view = new DataView(bytes.buffer);
+    bytes.set([0x49, 0x49, 42, 0]);
+    view.setUint32(4, 8, true);
+    view.setUint16(8, 1, true);
+    view.setUint16(10, 0x0112, true);
+    view.setUint16(12, 3, true);
+    view.setUint32(14, 1, true);
+    view.setUint16(18, 6, true);
+    view.setUint32(22, 26, true);
+    view.setUint16(26, 2, true);
+    [[0x0201, 56], [0x0202, THUMBNAIL.length]].forEach(([tag, value], i) => {
+        view.setUint16(28 + i * 12, tag, true);
+        view.setUint16(30 + i * 12, 4, true);
+        view.setUint32(32 + i * 12, 1, true);
+        view.setUint32(36 + i * 12, value, true);
+    });
+    bytes.set(THUMBNAIL, 56);
+    return bytes;
+}
+
+function jpeg(...segments: [number, number[]][]): Blob {
+    const bytes = [0xff, 0xd8];
+    segments.forEach(([marker, data]) => bytes.push(0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data));
+    return new Blob([new Uint8Array([...bytes, 0xff, 0xda, 0, 2, 0x12, 0xff, 0xd9])], { type: 'image/jpeg' });
+}
+
+function pngChunk(type: string, data: Uint8Array): number[] {
+    const body = new Uint8Array([...[...type].map(c => c.charCodeAt(0)), ...data]);
+    const chunk = new Uint8Array(body.length + 8);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(body, 4);
+    view.setUint32(4 + body.length, crc32(body));
+    return [...chunk];
+}
+
+function png(...chunks: number[][]): Blob {
+    const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+    return new Blob([new Uint8Array([...signature, ...chunks.flat()])], { type: 'image/png' });
+}
+
+const containsThumbnail = (bytes: Uint8Array) => Buffer.from(bytes).includes(Buffer.from(THUMBNAIL));
+
+describe('copyImageMetadata', () => {
+    it('copies JPEG EXIF without the thumbnail of the unedited picture', async () => {
+        const exif = exifWithThumbnail();
+        const original = jpeg([0xe1, [...[...'Exif\0\0'].map(c => c.charCodeAt(0)), ...exif]]);
+        const encoded = jpeg([0xdb, [0, ...new Array(64).fill(1)]]);
+        const output = new Uint8Array(await (await copyImageMetadata(original, encoded, 1, 1)).arrayBuffer());
+
+        expect(containsThumbnail(new Uint8Array(await original.arrayBuffer()))).toBe(true);
+        expect(containsThumbnail(output)).toBe(false);
+        expect(getImageOrientation(output, 'image/jpeg')).toBe(6);
+    });
+
+    it('rewrites the PNG eXIf chunk with a valid CRC', async () => {
+        const header = pngChunk('IHDR', new Uint8Array(13));
+        const output = new Uint8Array(await (await copyImageMetadata(
+            png(header, pngChunk('eXIf', exifWithThumbnail())),
+            png(header, pngChunk('IEND', new Uint8Array(0))),
+            1,
+            1
+        )).arrayBuffer());
+
+        expect(containsThumbnail(output)).toBe(false);
+        expect(getImageOrientation(output, 'image/png')).toBe(6);
+        const chunkStart = 8 + header.length;
+        const length = new DataView(output.buffer).getUint32(chunkStart);
+        const storedCrc = new DataView(output.buffer).getUint32(chunkStart + 8 + length);
+        expect(storedCrc).toBe(crc32(output.subarray(chunkStart + 4, chunkStart + 8 + length)));
+    });
+});
@@ -0,0 +1,398 @@
+import { createCanvas, getContext2d, ScanCanvas } from './canvasFactory';
+import { crc32 } from '../utils/zip';
+
+// Canvas encoders write bare pixels: no EXIF, colour profile or resolution. The
+// helpers here copy that metadata over from the original file, byte for byte,
+// into the freshly encoded one - all but the EXIF thumbnail, which still shows
+// the picture as it was before editing. JPEGs kept at their own quality skip
+// all this: jpegBlocks rewrites just their changed blocks in the original file.
+
+// Used when the original's quantisation tables can't be read.
+export const DEFAULT_JPEG_QUALITY = 92;
+
+// JPEG segments worth keeping: APP0-APP15 (JFIF, EXIF, XMP, ICC, IPTC, ...) and
+// comments. APP14 is left out: Adobe's marker describes the colour transform
+// the original was encoded with, not the new one.
+const isJpegMetadataMarker = (marker: number) => (marker >= 0xe0 && marker <= 0xef && marker !== 0xee) || marker === 0xfe;
+const JPEG_SOS = 0xda;
+const JPEG_DQT = 0xdb;
+
+// PNG chunks describing colour, resolution and text, none of which the browser's
+// encoder writes (bar an occasional sRGB).
+const PNG_METADATA_CHUNKS = new Set(['iCCP', 'sRGB', 'gAMA', 'cHRM', 'pHYs', 'tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+const PNG_SIGNATURE_LENGTH = 8;
+
+const WEBP_METADATA_CHUNKS = ['ICCP', 'EXIF', 'XMP '];
+// Where the EXIF block starts inside a JPEG APP1 segment ("Exif\0\0" after the
+// marker and length), a PNG chunk and a WebP chunk (after the type and length).
+const JPEG_EXIF_START = 10;
+const CHUNK_DATA_START = 8;
+const EXIF_PREFIX_LENGTH = 6;
+
+const EXIF_TAG = {
+    stripOffsets: 0x0111,
+    orientation: 0x0112,
+    stripByteCounts: 0x0117,
+    thumbnailOffset: 0x0201,
+    thumbnailLength: 0x0202,
+};
+const WEBP_FLAGS = { icc: 0x20, alpha: 0x10, exif: 0x08, xmp: 0x04 };
+
+// The IJG luminance table behind the usual 1-100 quality scale.
+const STANDARD_LUMINANCE_TABLE = [
+    16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+interface JpegSegment {
+    marker: number;
+    bytes: Uint8Array;
+}
+
+interface Chunk {
+    type: string;
+    // The whole chunk, header and trailer included.
+    bytes: Uint8Array;
+    data: Uint8Array;
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+    return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        output.set(part, offset);
+        offset += part.length;
+    });
+    return output;
+}
+
+// The segments before the first scan, plus everything from the scan on as `rest`.
+function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[], rest: Uint8Array } {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG file');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xff) throw new Error('Corrupt JPEG file');
+        const marker = bytes[offset + 1];
+        // Fill bytes may pad between segments.
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        if (marker === JPEG_SOS) break;
+        const end = offset + 2 + view.getUint16(offset + 2);
+        segments.push({ marker, bytes: bytes.subarray(offset, end) });
+        offset = end;
+    }
+    return { segments, rest: bytes.subarray(offset) };
+}
+
+function readPngChunks(bytes: Uint8Array): Chunk[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Chunk[] = [];
+    for (let offset = PNG_SIGNATURE_LENGTH; offset + 12 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const end = offset + 12 + length;
+        chunks.push({ type: fourCC(bytes, offset + 4), bytes: bytes.subarray(offset, end), data: bytes.subarray(offset + 8, end - 4) });
+        offset = end;
+    }
+    return chunks;
+}
+
+function readWebpChunks(bytes: Uint8Array): Chunk[] {
+    if (fourCC(bytes, 0) !== 'RIFF' || fourCC(bytes, 8) !== 'WEBP') throw new Error('Not a WebP file');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: Chunk[] = [];
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset + 4, true);
+        const end = offset + 8 + length + (length % 2);
+        chunks.push({ type: fourCC(bytes, offset), bytes: bytes.subarray(offset, end), data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset = end;
+    }
+    return chunks;
+}
+
+// The data colour space of an ICC profile, e.g. 'RGB ', 'GRAY' or 'CMYK'.
+export function getIccColorSpace(profile: Uint8Array): string {
+    return profile.length >= 20 ? fourCC(profile, 16) : '';
+}
+
+// Canvases are always RGB, so only an RGB profile still describes the pixels.
+const isRgbProfile = (profile: Uint8Array) => getIccColorSpace(profile) === 'RGB ';
+
+const JPEG_ICC_HEADER = 'ICC_PROFILE\0';
+
+function isJpegIccSegment(segment: JpegSegment): boolean {
+    return segment.marker === 0xe2 && new TextDecoder().decode(segment.bytes.subarray(4, 16)) === JPEG_ICC_HEADER;
+}
+
+// Profiles can span several APP2 segments; the header is in the first.
+function hasRgbJpegProfile(segments: JpegSegment[]): boolean {
+    const first = segments.find(isJpegIccSegment);
+    return !!first && isRgbProfile(first.bytes.subarray(18));
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// iCCP holds a profile name, a compression method byte and the zlib-compressed profile.
+async function isRgbPngProfile(chunk: Chunk): Promise<boolean> {
+    const nameEnd = chunk.data.indexOf(0);
+    try {
+        return isRgbProfile(await inflate(chunk.data.subarray(nameEnd + 2)));
+    } catch {
+        return false;
+    }
+}
+
+// The EXIF block (a little TIFF file) of a JPEG, PNG or WebP, if it has one.
+function findExif(bytes: Uint8Array, type: string): Uint8Array | undefined {
+    switch (type) {
+        case 'image/jpeg': {
+            const segment = readJpegSegments(bytes).segments.find(s => s.marker === 0xe1 && fourCC(s.bytes, 4) === 'Exif');
+            return segment?.bytes.subarray(JPEG_EXIF_START);
+        }
+        case 'image/png':
+            return readPngChunks(bytes).find(c => c.type === 'eXIf')?.data;
+        case 'image/webp': {
+            const data = readWebpChunks(bytes).find(c => c.type === 'EXIF')?.data;
+            // Some writers keep JPEG's "Exif\0\0" prefix.
+            return data && fourCC(data, 0) === 'Exif' ? data.subarray(EXIF_PREFIX_LENGTH) : data;
+        }
+    }
+    return undefined;
+}
+
+// IFD1 of an EXIF block holds a thumbnail of the picture as it was, which would
+// still show the old code. Its bytes are blanked and IFD0 no longer links to
+// it; the block keeps its length so every other offset stays valid.
+function removeExifThumbnail(exif: Uint8Array): Uint8Array {
+    if (exif.length < 8) return exif;
+    const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+    const littleEndian = exif[0] === 0x49;
+    const ifd0 = view.getUint32(4, littleEndian);
+    if (ifd0 + 2 > exif.length) return exif;
+    const link = ifd0 + 2 + view.getUint16(ifd0, littleEndian) * 12;
+    if (link + 4 > exif.length) return exif;
+    const ifd1 = view.getUint32(link, littleEndian);
+    if (ifd1 === 0) return exif;
+
+    const output = exif.slice();
+    new DataView(output.buffer).setUint32(link, 0, littleEndian);
+    if (ifd1 + 2 > exif.length) return output;
+    const count = view.getUint16(ifd1, littleEndian);
+    // SHORT and LONG values of an IFD1 tag, stored inline when they fit in four bytes.
+    const values = (tag: number): number[] => {
+        for (let i = 0; i < count; i++) {
+            const entry = ifd1 + 2 + i * 12;
+            if (entry + 12 > exif.length) break;
+            if (view.getUint16(entry, littleEndian) !== tag) continue;
+            const size = view.getUint16(entry + 2, littleEndian) === 3 ? 2 : 4;
+            const n = view.getUint32(entry + 4, littleEndian);
+            const start = n * size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+            if (start + n * size > exif.length) return [];
+            return Array.from({ length: n }, (_, k) => (size === 2 ? view.getUint16(start + k * 2, littleEndian) : view.getUint32(start + k * 4, littleEndian)));
+        }
+        return [];
+    };
+    const blank = (start: number, length: number) => output.fill(0, start, Math.min(exif.length, start + length));
+    const [offset] = values(EXIF_TAG.thumbnailOffset);
+    const [length] = values(EXIF_TAG.thumbnailLength);
+    if (offset !== undefined && length !== undefined) blank(offset, length);
+    const stripCounts = values(EXIF_TAG.stripByteCounts);
+    values(EXIF_TAG.stripOffsets).forEach((strip, i) => blank(strip, stripCounts[i] ?? 0));
+    blank(ifd1, 2 + count * 12 + 4);
+    return output;
+}
+
+// A copy of a segment or chunk whose EXIF block, from `start`, has lost its thumbnail.
+function withoutThumbnail(bytes: Uint8Array, start: number, end = bytes.length): Uint8Array {
+    const output = bytes.slice();
+    output.set(removeExifThumbnail(bytes.subarray(start, end)), start);
+    return output;
+}
+
+// The Orientation tag (1-8) from an image's EXIF, or 1 if there is none.
+export function getImageOrientation(bytes: Uint8Array, type: string): number {
+    const tiff = findExif(bytes, type);
+    if (!tiff || tiff.length < 8) return 1;
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = tiff[0] === 0x49;
+    const ifd = view.getUint32(4, littleEndian);
+    if (ifd + 2 > tiff.length) return 1;
+    const count = view.getUint16(ifd, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > tiff.length) break;
+        if (view.getUint16(entry, littleEndian) === EXIF_TAG.orientation) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+    }
+    return 1;
+}
+
+// Estimates the 1-100 quality a JPEG was saved at by comparing its luminance
+// quantisation table with the scaled IJG table. Null without a readable table.
+export function estimateJpegQuality(bytes: Uint8Array): number | null {
+    const { segments } = readJpegSegments(bytes);
+    for (const segment of segments.filter(s => s.marker === JPEG_DQT)) {
+        let offset = 4;
+        while (offset < segment.bytes.length) {
+            const precision = segment.bytes[offset] >> 4;
+            const id = segment.bytes[offset] & 0x0f;
+            const size = precision ? 128 : 64;
+            if (id === 0) {
+                let sum = 0;
+                for (let i = 0; i < 64; i++) {
+                    sum += precision
+                        ? (segment.bytes[offset + 1 + i * 2] << 8) | segment.bytes[offset + 2 + i * 2]
+                        : segment.bytes[offset + 1 + i];
+                }
+                const scale = (sum * 100) / STANDARD_LUMINANCE_TABLE.reduce((a, b) => a + b, 0);
+                const quality = scale <= 100 ? (200 - scale) / 2 : 5000 / scale;
+                return Math.round(Math.max(1, Math.min(100, quality)));
+            }
+            offset += 1 + size;
+        }
+    }
+    return null;
+}
+
+// Browsers apply the EXIF orientation when decoding, so edits happen on the
+// upright picture. This turns it back to the stored orientation, so the
+// original's EXIF (orientation included) still describes the saved pixels.
+export function toStoredOrientation(canvas: ScanCanvas, orientation: number): ScanCanvas {
+    if (orientation <= 1 || orientation > 8) return canvas;
+    const { width, height } = canvas;
+    const swapsSides = orientation >= 5;
+    const output = createCanvas(swapsSides ? height : width, swapsSides ? width : height);
+    const ctx = getContext2d(output);
+    // The inverse of each orientation's transform; only the two quarter turns differ from their own.
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, -1, 1, 0, 0, width); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, 1, -1, 0, height, 0); break;
+    }
+    ctx.drawImage(canvas, 0, 0);
+    return output;
+}
+
+const jpegSegmentBytes = (segment: JpegSegment) =>
+    (segment.marker === 0xe1 && fourCC(segment.bytes, 4) === 'Exif' ? withoutThumbnail(segment.bytes, JPEG_EXIF_START) : segment.bytes);
+
+// A JPEG whose own metadata is kept as it is, bar the EXIF thumbnail.
+export function removeJpegThumbnail(bytes: Uint8Array): Uint8Array {
+    const { segments, rest } = readJpegSegments(bytes);
+    return concat([new Uint8Array([0xff, 0xd8]), ...segments.map(jpegSegmentBytes), rest]);
+}
+
+function copyJpegMetadata(original: Uint8Array, encoded: Uint8Array): Uint8Array {
+    const metadata = readJpegSegments(original).segments.filter(s => isJpegMetadataMarker(s.marker));
+    const keepProfile = hasRgbJpegProfile(metadata);
+    const target = readJpegSegments(encoded);
+    return concat([
+        new Uint8Array([0xff, 0xd8]),
+        ...metadata.filter(s => keepProfile || !isJpegIccSegment(s)).map(jpegSegmentBytes),
+        ...target.segments.filter(s => !isJpegMetadataMarker(s.marker)).map(s => s.bytes),
+        target.rest,
+    ]);
+}
+
+async function copyPngMetadata(original: Uint8Array, encoded: Uint8Array): Promise<Uint8Array> {
+    const metadata: Chunk[] = [];
+    for (const chunk of readPngChunks(original).filter(c => PNG_METADATA_CHUNKS.has(c.type))) {
+        if (chunk.type !== 'iCCP' || await isRgbPngProfile(chunk)) metadata.push(chunk);
+    }
+    if (metadata.length === 0) return encoded;
+    const pngChunkBytes = (chunk: Chunk) => {
+        if (chunk.type !== 'eXIf') return chunk.bytes;
+        const bytes = withoutThumbnail(chunk.bytes, CHUNK_DATA_START, chunk.bytes.length - 4);
+        // The CRC covers the type and data.
+        new DataView(bytes.buffer).setUint32(bytes.length - 4, crc32(bytes.subarray(4, bytes.length - 4)));
+        return bytes;
+    };
+    // Colour chunks must come before the image data; straight after IHDR suits them all.
+    const [header, ...rest] = readPngChunks(encoded);
+    const hasProfile = metadata.some(c => c.type === 'iCCP');
+    return concat([
+        encoded.subarray(0, PNG_SIGNATURE_LENGTH),
+        header.bytes,
+        // A profile and an sRGB chunk contradict each other; the profile wins.
+        ...metadata.filter(c => !(hasProfile && c.type === 'sRGB')).map(pngChunkBytes),
+        ...rest.filter(c => !PNG_METADATA_CHUNKS.has(c.type)).map(c => c.bytes),
+    ]);
+}
+
+function hasWebpAlpha(chunks: Chunk[]): boolean {
+    const extended = chunks.find(c => c.type === 'VP8X');
+    if (extended) return (extended.data[0] & WEBP_FLAGS.alpha) !== 0;
+    const lossless = chunks.find(c => c.type === 'VP8L');
+    // Bit 28 of the lossless header, after the one-byte signature.
+    return !!lossless && ((lossless.data[4] >> 4) & 1) === 1;
+}
+
+// Metadata only fits in the extended format, so a VP8X header is (re)built
+// declaring which of the original's chunks came along.
+function copyWebpMetadata(original: Uint8Array, encoded: Uint8Array, width: number, height: number): Uint8Array {
+    const metadata = readWebpChunks(original)
+        .filter(c => WEBP_METADATA_CHUNKS.includes(c.type))
+        .filter(c => c.type !== 'ICCP' || isRgbProfile(c.data));
+    if (metadata.length === 0) return encoded;
+    const encodedChunks = readWebpChunks(encoded);
+    const image = encodedChunks.filter(c => c.type !== 'VP8X' && !WEBP_METADATA_CHUNKS.includes(c.type));
+
+    const header = new Uint8Array(18);
+    const view = new DataView(header.buffer);
+    header.set([...'VP8X'].map(c => c.charCodeAt(0)));
+    view.setUint32(4, 10, true);
+    const has = (type: string) => metadata.some(c => c.type === type);
+    header[8] = (has('ICCP') ? WEBP_FLAGS.icc : 0) | (hasWebpAlpha(encodedChunks) ? WEBP_FLAGS.alpha : 0)
+        | (has('EXIF') ? WEBP_FLAGS.exif : 0) | (has('XMP ') ? WEBP_FLAGS.xmp : 0);
+    // 24-bit canvas width and height, minus one.
+    [width - 1, height - 1].forEach((value, i) => header.set([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff], 12 + i * 3));
+
+    // The container fixes the order: VP8X, ICCP, image data, EXIF, XMP.
+    const chunks = [
+        header,
+        ...metadata.filter(c => c.type === 'ICCP').map(c => c.bytes),
+        ...image.map(c => c.bytes),
+        ...metadata.filter(c => c.type === 'EXIF').map(c => withoutThumbnail(
+            c.bytes,
+            CHUNK_DATA_START + (fourCC(c.data, 0) === 'Exif' ? EXIF_PREFIX_LENGTH : 0),
+            CHUNK_DATA_START + c.data.length
+        )),
+        ...metadata.filter(c => c.type === 'XMP ').map(c => c.bytes),
+    ];
+    const riffHeader = new Uint8Array(12);
+    riffHeader.set(encoded.subarray(0, 12));
+    new DataView(riffHeader.buffer).setUint32(4, 4 + chunks.reduce((sum, c) => sum + c.length, 0), true);
+    return concat([riffHeader, ...chunks]);
+}
+
+// Returns `encoded` with the original's metadata added; both must be the same format.
+export async function copyImageMetadata(original: Blob, encoded: Blob, width: number, height: number): Promise<Blob> {
+    const source = new Uint8Array(await original.arrayBuffer());
+    const target = new Uint8Array(await encoded.arrayBuffer());
+    let output: Uint8Array;
+    switch (encoded.type) {
+        case 'image/jpeg': output = copyJpegMetadata(source, target); break;
+        case 'image/png': output = await copyPngMetadata(source, target); break;
+        case 'image/webp': output = copyWebpMetadata(source, target, width, height); break;
+        default: return encoded;
+    }
+    return new Blob([output], { type: encoded.type });
+}
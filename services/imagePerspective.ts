@@ -0,0 +1,133 @@
+import { isPointInPolygon } from '../utils/helpers';
+import { createCanvas, getContext2d, ScanContext } from './canvasFactory';
+
+type Point = { x: number; y: number };
+type Color = [number, number, number];
+
+// Row-major 3x3 projective transform with the last entry fixed to 1.
+export type Homography = [number, number, number, number, number, number, number, number, number];
+
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) throw new Error('Degenerate QR code corners');
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    return a.map((row, i) => row[n] / row[i]);
+}
+
+// Maps each point in `from` onto the point at the same index in `to`.
+export function computeHomography(from: Point[], to: Point[]): Homography {
+    const matrix: number[][] = [];
+    const rhs: number[] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+        rhs.push(u);
+        matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+        rhs.push(v);
+    }
+    return [...solveLinearSystem(matrix, rhs), 1] as Homography;
+}
+
+export function applyHomography(h: Homography, x: number, y: number): Point {
+    const w = h[6] * x + h[7] * y + h[8];
+    return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+}
+
+// Median colour of a ring of pixels just outside the quad. In photos this picks
+// up the paper's real tone under the scene's lighting rather than pure white.
+export function sampleSurroundingColor(imageData: ImageData, corners: Point[], offset: number): Color {
+    const center = {
+        x: corners.reduce((sum, p) => sum + p.x, 0) / 4,
+        y: corners.reduce((sum, p) => sum + p.y, 0) / 4,
+    };
+    const channels: number[][] = [[], [], []];
+
+    for (let i = 0; i < 4; i++) {
+        const a = corners[i];
+        const b = corners[(i + 1) % 4];
+        for (let t = 0; t <= 1; t += 0.05) {
+            const px = a.x + (b.x - a.x) * t;
+            const py = a.y + (b.y - a.y) * t;
+            const dx = px - center.x;
+            const dy = py - center.y;
+            const length = Math.hypot(dx, dy) || 1;
+            const x = Math.round(px + (dx / length) * offset);
+            const y = Math.round(py + (dy / length) * offset);
+            if (x < 0 || y < 0 || x >= imageData.width || y >= imageData.height) continue;
+            const idx = (y * imageData.width + x) * 4;
+            for (let c = 0; c < 3; c++) channels[c].push(imageData.data[idx + c]);
+        }
+    }
+
+    if (channels[0].length === 0) return [255, 255, 255];
+    return channels.map(values => {
+        values.sort((a, b) => a - b);
+        return values[Math.floor(values.length / 2)];
+    }) as Color;
+}
+
+// Warps a square QR image onto the quad given by `corners` (top-left, top-right,
+// bottom-right, bottom-left). Light modules take `lightColor` so the code sits
+// on the sampled background instead of a pasted-in white square.
+export function drawQrInPerspective(
+    ctx: ScanContext,
+    qrImage: CanvasImageSource & { width: number; height: number },
+    corners: Point[],
+    darkColor: Color,
+    lightColor: Color
+) {
+    const qrCanvas = createCanvas(qrImage.width, qrImage.height);
+    const qrCtx = getContext2d(qrCanvas, { willReadFrequently: true });
+    qrCtx.drawImage(qrImage, 0, 0);
+    const qrData = qrCtx.getImageData(0, 0, qrCanvas.width, qrCanvas.height).data;
+
+    const square = [
+        { x: 0, y: 0 },
+        { x: qrCanvas.width, y: 0 },
+        { x: qrCanvas.width, y: qrCanvas.height },
+        { x: 0, y: qrCanvas.height },
+    ];
+    // Inverse mapping: for every destination pixel, look up where it lands in the QR image.
+    const toQr = computeHomography(corners, square);
+
+    const minX = Math.max(0, Math.floor(Math.min(...corners.map(p => p.x))));
+    const minY = Math.max(0, Math.floor(Math.min(...corners.map(p => p.y))));
+    const maxX = Math.min(ctx.canvas.width, Math.ceil(Math.max(...corners.map(p => p.x))));
+    const maxY = Math.min(ctx.canvas.height, Math.ceil(Math.max(...corners.map(p => p.y))));
+    if (maxX <= minX || maxY <= minY) return;
+
+    const target = ctx.getImageData(minX, minY, maxX - minX, maxY - minY);
+    for (let y = minY; y < maxY; y++) {
+        for (let x = minX; x < maxX; x++) {
+            if (!isPointInPolygon({ x: x + 0.5, y: y + 0.5 }, corners)) continue;
+            const src = applyHomography(toQr, x + 0.5, y + 0.5);
+            const sx = Math.min(qrCanvas.width - 1, Math.max(0, Math.floor(src.x)));
+            const sy = Math.min(qrCanvas.height - 1, Math.max(0, Math.floor(src.y)));
+            const srcIdx = (sy * qrCanvas.width + sx) * 4;
+            const isDark = qrData[srcIdx] + qrData[srcIdx + 1] + qrData[srcIdx + 2] < 384;
+            const color = isDark ? darkColor : lightColor;
+            const dstIdx = ((y - minY) * target.width + (x - minX)) * 4;
+            target.data[dstIdx] = color[0];
+            target.data[dstIdx + 1] = color[1];
+            target.data[dstIdx + 2] = color[2];
+            target.data[dstIdx + 3] = 255;
+        }
+    }
+    ctx.putImageData(target, minX, minY);
+}
@@ -0,0 +1,82 @@
+// In-place ImageData transforms used to give jsQR a second chance at codes it
+// misses in the raw render: faded scans, uneven lighting and light-on-dark prints.
+
+// Percentiles used to find the ink and paper tones of a faded scan.
+const STRETCH_LOW_PERCENTILE = 0.02;
+const STRETCH_HIGH_PERCENTILE = 0.98;
+// A pixel is dark when it is at least this many grey levels below its
+// neighbourhood mean. Small enough for faded ink, large enough to ignore paper grain.
+const ADAPTIVE_THRESHOLD_OFFSET = 10;
+
+function toGray(data: Uint8ClampedArray, i: number): number {
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+}
+
+function writeGray(data: Uint8ClampedArray, i: number, value: number) {
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+}
+
+// Grayscale, then stretch the histogram so the darkest ink is black and the
+// paper is white.
+export function stretchContrast(imageData: ImageData) {
+    const { data } = imageData;
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < data.length; i += 4) histogram[Math.round(toGray(data, i))]++;
+
+    const pixels = data.length / 4;
+    const percentile = (fraction: number) => {
+        let seen = 0;
+        for (let level = 0; level < 256; level++) {
+            seen += histogram[level];
+            if (seen >= pixels * fraction) return level;
+        }
+        return 255;
+    };
+    const low = percentile(STRETCH_LOW_PERCENTILE);
+    const high = Math.max(low + 1, percentile(STRETCH_HIGH_PERCENTILE));
+
+    for (let i = 0; i < data.length; i += 4) {
+        writeGray(data, i, ((toGray(data, i) - low) * 255) / (high - low));
+    }
+}
+
+// Binarizes each pixel against the mean of its neighbourhood, which copes with
+// shadows and gradients a single global threshold can't.
+export function adaptiveThreshold(imageData: ImageData) {
+    const { data, width, height } = imageData;
+    const radius = Math.max(7, Math.round(Math.min(width, height) / 80));
+
+    // Summed-area table of grey levels, one row and column larger than the image.
+    const stride = width + 1;
+    const integral = new Float64Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += toGray(data, (y * width + x) * 4);
+            integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+        }
+    }
+
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.max(0, y - radius);
+        const y1 = Math.min(height, y + radius + 1);
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.max(0, x - radius);
+            const x1 = Math.min(width, x + radius + 1);
+            const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+            const mean = sum / ((x1 - x0) * (y1 - y0));
+            const i = (y * width + x) * 4;
+            writeGray(data, i, toGray(data, i) < mean - ADAPTIVE_THRESHOLD_OFFSET ? 0 : 255);
+        }
+    }
+}
+
+export function invertColors(imageData: ImageData) {
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = 255 - data[i];
+        data[i + 1] = 255 - data[i + 1];
+        data[i + 2] = 255 - data[i + 2];
+    }
+}
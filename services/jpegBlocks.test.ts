@@ -0,0 +1,124 @@
+import { decode, encode } from 'jpeg-js';
+import { describe, expect, it } from 'vitest';
+import { PixelData, replaceChangedJpegBlocks } from './jpegBlocks';
+
+function makePixels(width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): PixelData {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) data.set([...pixel(x, y), 255], (y * width + x) * 4);
+    }
+    return { width, height, data };
+}
+
+const gradient = (x: number, y: number): [number, number, number] => [x * 4, y * 4, 128];
+
+function decodePixels(bytes: Uint8Array): PixelData {
+    const { width, height, data } = decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width, height, data: new Uint8ClampedArray(data) };
+}
+
+// A copy of `pixels` with a black square drawn over it.
+function withSquare(pixels: PixelData, left: number, top: number, size: number): PixelData {
+    const data = pixels.data.slice();
+    for (let y = top; y < top + size; y++) {
+        for (let x = left; x < left + size; x++) data.set([0, 0, 0], (y * pixels.width + x) * 4);
+    }
+    return { ...pixels, data };
+}
+
+// Compares two images pixel by pixel: whether everything outside `region` is
+// identical, and the mean channel difference inside it.
+function compare(a: PixelData, b: PixelData, region: { left: number, top: number, right: number, bottom: number }) {
+    let identicalOutside = true;
+    let differenceInside = 0;
+    for (let y = 0; y < a.height; y++) {
+        for (let x = 0; x < a.width; x++) {
+            const inside = x >= region.left && x < region.right && y >= region.top && y < region.bottom;
+            for (let c = 0; c < 3; c++) {
+                const i = (y * a.width + x) * 4 + c;
+                if (inside) differenceInside += Math.abs(a.data[i] - b.data[i]);
+                else if (a.data[i] !== b.data[i]) identicalOutside = false;
+            }
+        }
+    }
+    const insideCount = (region.right - region.left) * (region.bottom - region.top) * 3;
+    return { identicalOutside, meanInside: differenceInside / insideCount };
+}
+
+// A baseline JPEG whose blocks are all zero, coded with one-symbol Huffman
+// tables so the scan is two zero bits per block. `sampling` is per component.
+function blankJpeg(width: number, height: number, sampling: [number, number][], restartInterval = 0): Uint8Array {
+    const bytes = [0xff, 0xd8];
+    const segment = (marker: number, data: number[]) => bytes.push(0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data);
+    segment(0xdb, [0, ...new Array(64).fill(2)]);
+    segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, sampling.length, ...sampling.flatMap(([h, v], i) => [i + 1, (h << 4) | v, 0])]);
+    const oneSymbol = [1, ...new Array(15).fill(0), 0];
+    segment(0xc4, [0x00, ...oneSymbol, 0x10, ...oneSymbol]);
+    if (restartInterval) segment(0xdd, [restartInterval >> 8, restartInterval & 0xff]);
+    segment(0xda, [sampling.length, ...sampling.flatMap((_, i) => [i + 1, 0]), 0, 63, 0]);
+
+    const hMax = Math.max(...sampling.map(([h]) => h));
+    const vMax = Math.max(...sampling.map(([, v]) => v));
+    const mcus = sampling.length === 1
+        ? Math.ceil(width / 8) * Math.ceil(height / 8)
+        : Math.ceil(width / (8 * hMax)) * Math.ceil(height / (8 * vMax));
+    const bitsPerMcu = 2 * (sampling.length === 1 ? 1 : sampling.reduce((sum, [h, v]) => sum + h * v, 0));
+    const interval = restartInterval || mcus;
+    for (let start = 0; start < mcus; start += interval) {
+        if (start > 0) bytes.push(0xff, 0xd0 + ((start / interval - 1) % 8));
+        const bits = Math.min(interval, mcus - start) * bitsPerMcu;
+        // Zero bits, with the last byte padded with ones.
+        bytes.push(...new Array(Math.floor(bits / 8)).fill(0));
+        if (bits % 8) bytes.push(0xff >> (bits % 8));
+    }
+    bytes.push(0xff, 0xd9);
+    return new Uint8Array(bytes);
+}
+
+describe('replaceChangedJpegBlocks', () => {
+    it('keeps every block outside the change exactly as it was', () => {
+        const original = new Uint8Array(encode(makePixels(64, 48, gradient), 75).data);
+        const before = decodePixels(original);
+        const after = withSquare(before, 20, 12, 10);
+        const output = replaceChangedJpegBlocks(original, before, after);
+
+        expect(output).not.toBeNull();
+        // The square touches the 8x8 blocks from (16, 8) to (32, 24).
+        const result = compare(decodePixels(output!), before, { left: 16, top: 8, right: 32, bottom: 24 });
+        expect(result.identicalOutside).toBe(true);
+        expect(compare(decodePixels(output!), after, { left: 20, top: 12, right: 30, bottom: 22 }).meanInside).toBeLessThan(8);
+    });
+
+    it('encodes subsampled colour with restart markers and new Huffman tables', () => {
+        const target = makePixels(40, 40, gradient);
+        const blank = blankJpeg(40, 40, [[2, 2], [1, 1], [1, 1]], 3);
+        const encoded = replaceChangedJpegBlocks(blank, decodePixels(blank), target)!;
+        const decoded = decodePixels(encoded);
+        expect(compare(decoded, target, { left: 0, top: 0, right: 40, bottom: 40 }).meanInside).toBeLessThan(3);
+
+        // Then a second edit leaves the first one's other MCUs alone.
+        const edited = replaceChangedJpegBlocks(encoded, decoded, withSquare(decoded, 2, 2, 4))!;
+        expect(compare(decodePixels(edited), decoded, { left: 0, top: 0, right: 16, bottom: 16 }).identicalOutside).toBe(true);
+    });
+
+    it('handles greyscale files', () => {
+        const target = makePixels(20, 12, x => [x * 12, x * 12, x * 12]);
+        const blank = blankJpeg(20, 12, [[1, 1]]);
+        const decoded = decodePixels(replaceChangedJpegBlocks(blank, decodePixels(blank), target)!);
+        expect(compare(decoded, target, { left: 0, top: 0, right: 20, bottom: 12 }).meanInside).toBeLessThan(3);
+    });
+
+    it('returns the original when nothing changed', () => {
+        const original = new Uint8Array(encode(makePixels(16, 16, gradient), 90).data);
+        const pixels = decodePixels(original);
+        expect(replaceChangedJpegBlocks(original, pixels, pixels)).toBe(original);
+    });
+
+    it('leaves progressive files and mismatched sizes to a full re-encode', () => {
+        const pixels = makePixels(8, 8, gradient);
+        const progressive = new Uint8Array([0xff, 0xd8, 0xff, 0xc2, 0, 2, 0xff, 0xd9]);
+        expect(replaceChangedJpegBlocks(progressive, pixels, withSquare(pixels, 0, 0, 2))).toBeNull();
+        const original = new Uint8Array(encode(makePixels(16, 16, gradient), 90).data);
+        expect(replaceChangedJpegBlocks(original, pixels, withSquare(pixels, 0, 0, 2))).toBeNull();
+    });
+});
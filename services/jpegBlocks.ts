@@ -0,0 +1,641 @@
+// Rewrites a baseline JPEG so that only the 8x8 blocks whose pixels changed are
+// encoded again. Every other block keeps the original's quantised coefficients
+// exactly, so saving an edit costs no quality outside the edited area. Only
+// sequential Huffman-coded files with a single scan are handled; anything else
+// (progressive, arithmetic coding, CMYK, 12-bit samples) is left to a full
+// re-encode.
+
+export interface PixelData {
+    width: number;
+    height: number;
+    // RGBA, laid out like ImageData.
+    data: Uint8ClampedArray;
+}
+
+const MARKER = {
+    sof0: 0xc0,
+    sof1: 0xc1,
+    dht: 0xc4,
+    rst0: 0xd0,
+    rst7: 0xd7,
+    eoi: 0xd9,
+    sos: 0xda,
+    dqt: 0xdb,
+    dri: 0xdd,
+    adobe: 0xee,
+};
+// Start-of-frame markers this can't rewrite: progressive, lossless, hierarchical and arithmetic.
+const UNSUPPORTED_FRAMES = new Set([0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+// Position in the block, in natural order, of each coefficient in zigzag order.
+const ZIGZAG = [
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// cos((2x + 1)uπ / 16) scaled by C(u) / 2, indexed [x * 8 + u].
+const DCT_BASIS = Array.from({ length: 64 }, (_, i) => {
+    const x = i >> 3;
+    const u = i & 7;
+    return (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+});
+
+interface HuffmanSpec {
+    // Number of codes of each length, 1-16.
+    bits: number[];
+    values: number[];
+}
+
+interface Component {
+    id: number;
+    h: number;
+    v: number;
+    quantTable: number;
+    dcTable: number;
+    acTable: number;
+    // Blocks actually covering the component's samples.
+    blocksWide: number;
+    blocksHigh: number;
+    // Blocks stored, padded out to whole MCUs.
+    blocksPerLine: number;
+    // 64 coefficients per block, in zigzag order.
+    coefficients: Int16Array;
+}
+
+interface Frame {
+    width: number;
+    height: number;
+    hMax: number;
+    vMax: number;
+    mcusWide: number;
+    mcusHigh: number;
+    components: Component[];
+}
+
+// Thrown for files this module doesn't handle or can't read, and caught at the
+// entry point; the browser's own decoder may well be more forgiving.
+class UnsupportedJpegError extends Error {}
+
+function unsupported(reason: string): never {
+    throw new UnsupportedJpegError(reason);
+}
+
+// Canonical codes for a table, per symbol.
+function buildCodes({ bits, values }: HuffmanSpec): Map<number, { code: number, length: number }> {
+    const codes = new Map<number, { code: number, length: number }>();
+    let code = 0;
+    let k = 0;
+    for (let length = 1; length <= 16; length++) {
+        for (let i = 0; i < bits[length - 1]; i++) codes.set(values[k++], { code: code++, length });
+        code <<= 1;
+    }
+    return codes;
+}
+
+class HuffmanDecoder {
+    private readonly maxCode: number[] = [];
+    private readonly valuePointer: number[] = [];
+    private readonly minCode: number[] = [];
+
+    constructor(private readonly spec: HuffmanSpec) {
+        let code = 0;
+        let k = 0;
+        for (let length = 1; length <= 16; length++) {
+            const count = spec.bits[length - 1];
+            this.valuePointer[length] = k;
+            this.minCode[length] = code;
+            code += count;
+            k += count;
+            this.maxCode[length] = count ? code - 1 : -1;
+            code <<= 1;
+        }
+    }
+
+    decode(reader: BitReader): number {
+        let code = 0;
+        for (let length = 1; length <= 16; length++) {
+            code = (code << 1) | reader.bit();
+            if (code <= this.maxCode[length]) return this.spec.values[this.valuePointer[length] + code - this.minCode[length]];
+        }
+        unsupported('Corrupt JPEG data');
+    }
+}
+
+class BitReader {
+    private byte = 0;
+    private bitsLeft = 0;
+
+    constructor(private readonly data: Uint8Array, public position: number) {}
+
+    // Past a marker (the end of the scan, or a restart) reads zeros.
+    bit(): number {
+        if (this.bitsLeft === 0) {
+            if (this.data[this.position] === 0xff && this.data[this.position + 1] !== 0) {
+                this.byte = 0;
+            } else {
+                this.byte = this.data[this.position] ?? 0;
+                this.position += this.byte === 0xff ? 2 : 1;
+            }
+            this.bitsLeft = 8;
+        }
+        this.bitsLeft--;
+        return (this.byte >> this.bitsLeft) & 1;
+    }
+
+    bits(count: number): number {
+        let value = 0;
+        for (let i = 0; i < count; i++) value = (value << 1) | this.bit();
+        return value;
+    }
+
+    // A signed value of `size` bits, as JPEG stores coefficient differences.
+    signed(size: number): number {
+        if (size === 0) return 0;
+        const value = this.bits(size);
+        return value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+    }
+
+    restart(): void {
+        this.bitsLeft = 0;
+        while (this.data[this.position] === 0xff && this.data[this.position + 1] === 0xff) this.position++;
+        const marker = this.data[this.position + 1];
+        if (this.data[this.position] !== 0xff || marker < MARKER.rst0 || marker > MARKER.rst7) unsupported('Corrupt JPEG data: missing restart marker');
+        this.position += 2;
+    }
+
+    // Where the scan's entropy-coded data ends: the first marker that isn't a restart.
+    endOfScan(): number {
+        let position = this.position;
+        while (position + 1 < this.data.length) {
+            const marker = this.data[position + 1];
+            if (this.data[position] === 0xff && marker !== 0 && marker !== 0xff && (marker < MARKER.rst0 || marker > MARKER.rst7)) return position;
+            position++;
+        }
+        return this.data.length;
+    }
+}
+
+class BitWriter {
+    private readonly bytes: number[] = [];
+    private buffer = 0;
+    private count = 0;
+
+    write(value: number, length: number): void {
+        for (let i = length - 1; i >= 0; i--) {
+            this.buffer = (this.buffer << 1) | ((value >> i) & 1);
+            if (++this.count === 8) {
+                this.bytes.push(this.buffer);
+                // A data byte of 0xff is followed by a zero so it can't be read as a marker.
+                if (this.buffer === 0xff) this.bytes.push(0);
+                this.buffer = 0;
+                this.count = 0;
+            }
+        }
+    }
+
+    // Pads the last byte with ones.
+    flush(): void {
+        if (this.count > 0) this.write(0x7f, 8 - this.count);
+    }
+
+    marker(marker: number): void {
+        this.bytes.push(0xff, marker);
+    }
+
+    toBytes(): Uint8Array {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+// Bits needed for the magnitude of a coefficient (difference).
+function magnitudeSize(value: number): number {
+    let size = 0;
+    for (let magnitude = Math.abs(value); magnitude > 0; magnitude >>= 1) size++;
+    return size;
+}
+
+// Visits every MCU in scan order with the blocks it holds, per component.
+function forEachMcu(
+    frame: Frame,
+    restartInterval: number,
+    visit: (blocks: { component: Component, offset: number }[]) => void,
+    onRestart: () => void
+): void {
+    const { components } = frame;
+    // A single-component scan codes the component's own blocks one at a time.
+    const single = components.length === 1;
+    const mcusWide = single ? components[0].blocksWide : frame.mcusWide;
+    const mcusHigh = single ? components[0].blocksHigh : frame.mcusHigh;
+    let mcu = 0;
+    for (let mcuY = 0; mcuY < mcusHigh; mcuY++) {
+        for (let mcuX = 0; mcuX < mcusWide; mcuX++) {
+            if (restartInterval && mcu > 0 && mcu % restartInterval === 0) onRestart();
+            mcu++;
+            const blocks: { component: Component, offset: number }[] = [];
+            for (const component of components) {
+                const h = single ? 1 : component.h;
+                const v = single ? 1 : component.v;
+                for (let row = 0; row < v; row++) {
+                    for (let col = 0; col < h; col++) {
+                        const block = (mcuY * v + row) * component.blocksPerLine + mcuX * h + col;
+                        blocks.push({ component, offset: block * 64 });
+                    }
+                }
+            }
+            visit(blocks);
+        }
+    }
+}
+
+interface ParsedJpeg {
+    frame: Frame;
+    quantTables: number[][];
+    huffmanTables: Map<number, HuffmanSpec>;
+    restartInterval: number;
+    // Where the scan header starts, its entropy-coded data starts and ends.
+    scanStart: number;
+    dataStart: number;
+    dataEnd: number;
+}
+
+// Huffman tables are keyed by class (0 DC, 1 AC) and id.
+const tableKey = (tableClass: number, id: number) => tableClass * 4 + id;
+
+function parseJpeg(bytes: Uint8Array): ParsedJpeg {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const quantTables: number[][] = [];
+    const huffmanTables = new Map<number, HuffmanSpec>();
+    let restartInterval = 0;
+    let frame: Frame | undefined;
+
+    let offset = 2;
+    for (;;) {
+        if (offset + 4 > bytes.length || bytes[offset] !== 0xff) unsupported('Corrupt JPEG file');
+        const marker = bytes[offset + 1];
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        const length = view.getUint16(offset + 2);
+        const segment = bytes.subarray(offset + 4, offset + 2 + length);
+        if (UNSUPPORTED_FRAMES.has(marker)) unsupported('Only baseline and extended sequential JPEGs are rewritten block by block');
+        if (marker === MARKER.adobe && segment.length >= 12 && segment[11] === 0) unsupported('RGB-coded JPEGs are not rewritten block by block');
+
+        if (marker === MARKER.dqt) {
+            for (let p = 0; p < segment.length;) {
+                const precision = segment[p] >> 4;
+                const table: number[] = [];
+                for (let k = 0; k < 64; k++) {
+                    table.push(precision ? (segment[p + 1 + k * 2] << 8) | segment[p + 2 + k * 2] : segment[p + 1 + k]);
+                }
+                quantTables[segment[p] & 0x0f] = table;
+                p += 1 + (precision ? 128 : 64);
+            }
+        } else if (marker === MARKER.dht) {
+            for (let p = 0; p < segment.length;) {
+                const bits = [...segment.subarray(p + 1, p + 17)];
+                const count = bits.reduce((a, b) => a + b, 0);
+                huffmanTables.set(tableKey(segment[p] >> 4, segment[p] & 0x0f), { bits, values: [...segment.subarray(p + 17, p + 17 + count)] });
+                p += 17 + count;
+            }
+        } else if (marker === MARKER.dri) {
+            restartInterval = (segment[0] << 8) | segment[1];
+        } else if (marker === MARKER.sof0 || marker === MARKER.sof1) {
+            if (segment[0] !== 8) unsupported('Only 8-bit JPEGs are rewritten block by block');
+            const height = (segment[1] << 8) | segment[2];
+            const width = (segment[3] << 8) | segment[4];
+            const count = segment[5];
+            if (count !== 1 && count !== 3) unsupported('Only greyscale and YCbCr JPEGs are rewritten block by block');
+            const sampling = Array.from({ length: count }, (_, i) => segment.subarray(6 + i * 3, 9 + i * 3));
+            const hMax = Math.max(...sampling.map(s => s[1] >> 4));
+            const vMax = Math.max(...sampling.map(s => s[1] & 0x0f));
+            const mcusWide = Math.ceil(width / (8 * hMax));
+            const mcusHigh = Math.ceil(height / (8 * vMax));
+            frame = {
+                width, height, hMax, vMax, mcusWide, mcusHigh,
+                components: sampling.map(([id, factors, quantTable]) => {
+                    const h = factors >> 4;
+                    const v = factors & 0x0f;
+                    if (hMax % h || vMax % v) unsupported('Unusual chroma subsampling');
+                    const blocksPerLine = mcusWide * h;
+                    return {
+                        id, h, v, quantTable, dcTable: 0, acTable: 0,
+                        blocksWide: Math.ceil(Math.ceil((width * h) / hMax) / 8),
+                        blocksHigh: Math.ceil(Math.ceil((height * v) / vMax) / 8),
+                        blocksPerLine,
+                        coefficients: new Int16Array(blocksPerLine * mcusHigh * v * 64),
+                    };
+                }),
+            };
+        } else if (marker === MARKER.sos) {
+            if (!frame) unsupported('Corrupt JPEG file');
+            const count = segment[0];
+            if (count !== frame.components.length) unsupported('Only single-scan JPEGs are rewritten block by block');
+            frame.components.forEach((component, i) => {
+                // Components in another order than the frame's would be coded in that order.
+                if (segment[1 + i * 2] !== component.id) unsupported('Scan components out of frame order');
+                component.dcTable = segment[2 + i * 2] >> 4;
+                component.acTable = segment[2 + i * 2] & 0x0f;
+            });
+            const dataStart = offset + 2 + length;
+            const dataEnd = decodeScan(bytes, dataStart, frame, huffmanTables, restartInterval);
+            // A second scan means the first didn't hold every coefficient.
+            if (bytes[dataEnd + 1] !== MARKER.eoi) unsupported('Only single-scan JPEGs are rewritten block by block');
+            return { frame, quantTables, huffmanTables, restartInterval, scanStart: offset, dataStart, dataEnd };
+        } else if (marker === MARKER.eoi) {
+            unsupported('Corrupt JPEG file');
+        }
+        offset += 2 + length;
+    }
+}
+
+// Reads every block's coefficients into the frame's components. Returns where the data ends.
+function decodeScan(bytes: Uint8Array, start: number, frame: Frame, tables: Map<number, HuffmanSpec>, restartInterval: number): number {
+    const decoder = (key: number) => {
+        const spec = tables.get(key);
+        if (!spec) unsupported('Corrupt JPEG file: missing Huffman table');
+        return new HuffmanDecoder(spec);
+    };
+    const dcDecoders = frame.components.map(c => decoder(tableKey(0, c.dcTable)));
+    const acDecoders = frame.components.map(c => decoder(tableKey(1, c.acTable)));
+    const predictions = frame.components.map(() => 0);
+    const reader = new BitReader(bytes, start);
+
+    forEachMcu(frame, restartInterval, blocks => {
+        for (const { component, offset } of blocks) {
+            const index = frame.components.indexOf(component);
+            predictions[index] += reader.signed(dcDecoders[index].decode(reader));
+            component.coefficients[offset] = predictions[index];
+            for (let k = 1; k < 64;) {
+                const symbol = acDecoders[index].decode(reader);
+                const run = symbol >> 4;
+                const size = symbol & 0x0f;
+                if (size === 0) {
+                    if (run !== 15) break;
+                    k += 16;
+                    continue;
+                }
+                k += run;
+                if (k > 63) unsupported('Corrupt JPEG data');
+                component.coefficients[offset + k++] = reader.signed(size);
+            }
+        }
+    }, () => {
+        reader.restart();
+        predictions.fill(0);
+    });
+    return reader.endOfScan();
+}
+
+// Calls `emit` with every symbol (and its extra bits) the scan is made of.
+function encodeScan(
+    frame: Frame,
+    restartInterval: number,
+    emit: (component: number, tableClass: number, symbol: number, extra: number, extraLength: number) => void,
+    onRestart: (count: number) => void
+): void {
+    const predictions = frame.components.map(() => 0);
+    let restarts = 0;
+    forEachMcu(frame, restartInterval, blocks => {
+        for (const { component, offset } of blocks) {
+            const index = frame.components.indexOf(component);
+            const { coefficients } = component;
+            const difference = coefficients[offset] - predictions[index];
+            predictions[index] = coefficients[offset];
+            const dcSize = magnitudeSize(difference);
+            emit(index, 0, dcSize, difference < 0 ? difference + (1 << dcSize) - 1 : difference, dcSize);
+
+            let run = 0;
+            for (let k = 1; k < 64; k++) {
+                const value = coefficients[offset + k];
+                if (value === 0) {
+                    run++;
+                    continue;
+                }
+                for (; run > 15; run -= 16) emit(index, 1, 0xf0, 0, 0);
+                const size = magnitudeSize(value);
+                emit(index, 1, (run << 4) | size, value < 0 ? value + (1 << size) - 1 : value, size);
+                run = 0;
+            }
+            // End of block.
+            if (run > 0) emit(index, 1, 0, 0, 0);
+        }
+    }, () => {
+        onRestart(restarts++ % 8);
+        predictions.fill(0);
+    });
+}
+
+// The optimal code lengths for the symbol counts, limited to 16 bits (JPEG
+// Annex K.2). A reserved extra symbol keeps any code from being all ones.
+function buildOptimalTable(counts: number[]): HuffmanSpec {
+    const frequency = [...counts, 1];
+    const codeSize = frequency.map(() => 0);
+    const others = frequency.map(() => -1);
+    for (;;) {
+        let c1 = -1;
+        let c2 = -1;
+        for (let i = 0; i < frequency.length; i++) {
+            if (frequency[i] && (c1 < 0 || frequency[i] <= frequency[c1])) c1 = i;
+        }
+        for (let i = 0; i < frequency.length; i++) {
+            if (frequency[i] && i !== c1 && (c2 < 0 || frequency[i] <= frequency[c2])) c2 = i;
+        }
+        if (c2 < 0) break;
+        frequency[c1] += frequency[c2];
+        frequency[c2] = 0;
+        for (codeSize[c1]++; others[c1] >= 0; codeSize[c1]++) c1 = others[c1];
+        others[c1] = c2;
+        for (codeSize[c2]++; others[c2] >= 0; codeSize[c2]++) c2 = others[c2];
+    }
+
+    const bits = new Array<number>(33).fill(0);
+    codeSize.forEach(size => { if (size) bits[size]++; });
+    for (let i = 32; i > 16; i--) {
+        while (bits[i] > 0) {
+            let j = i - 2;
+            while (bits[j] === 0) j--;
+            bits[i] -= 2;
+            bits[i - 1]++;
+            bits[j + 1] += 2;
+            bits[j]--;
+        }
+    }
+    // Drop the reserved symbol, which has the longest code.
+    let longest = 16;
+    while (bits[longest] === 0) longest--;
+    bits[longest]--;
+
+    const values: number[] = [];
+    for (let size = 1; size <= 32; size++) {
+        counts.forEach((_, symbol) => { if (codeSize[symbol] === size) values.push(symbol); });
+    }
+    return { bits: bits.slice(1, 17), values };
+}
+
+function dhtSegment(tables: Map<number, HuffmanSpec>): Uint8Array {
+    const body: number[] = [];
+    tables.forEach(({ bits, values }, key) => body.push(((key >> 2) << 4) | (key & 3), ...bits, ...values));
+    return new Uint8Array([0xff, MARKER.dht, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body]);
+}
+
+// Sample values of one component for the frame's pixels: luma for greyscale
+// files, JFIF's YCbCr for colour ones.
+function componentSample(data: Uint8ClampedArray, index: number, component: number, count: number): number {
+    const r = data[index];
+    const g = data[index + 1];
+    const b = data[index + 2];
+    if (count === 1 || component === 0) return 0.299 * r + 0.587 * g + 0.114 * b;
+    return component === 1
+        ? -0.168736 * r - 0.331264 * g + 0.5 * b + 128
+        : 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+}
+
+// Forward DCT and quantisation of one block of `after`, averaging the pixels
+// each subsampled sample covers. Edges are extended past the image.
+function encodeBlock(after: PixelData, frame: Frame, index: number, blockX: number, blockY: number, quantTable: number[], output: Int16Array, offset: number): void {
+    const component = frame.components[index];
+    const scaleX = frame.hMax / component.h;
+    const scaleY = frame.vMax / component.v;
+    const samples = new Float64Array(64);
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            for (let dy = 0; dy < scaleY; dy++) {
+                const pixelY = Math.min(after.height - 1, (blockY * 8 + y) * scaleY + dy);
+                for (let dx = 0; dx < scaleX; dx++) {
+                    const pixelX = Math.min(after.width - 1, (blockX * 8 + x) * scaleX + dx);
+                    sum += componentSample(after.data, (pixelY * after.width + pixelX) * 4, index, frame.components.length);
+                }
+            }
+            samples[y * 8 + x] = sum / (scaleX * scaleY) - 128;
+        }
+    }
+    // Rows, then columns.
+    const rows = new Float64Array(64);
+    for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let x = 0; x < 8; x++) sum += samples[y * 8 + x] * DCT_BASIS[x * 8 + u];
+            rows[y * 8 + u] = sum;
+        }
+    }
+    for (let k = 0; k < 64; k++) {
+        const u = ZIGZAG[k] & 7;
+        const v = ZIGZAG[k] >> 3;
+        let sum = 0;
+        for (let y = 0; y < 8; y++) sum += rows[y * 8 + u] * DCT_BASIS[y * 8 + v];
+        output[offset + k] = Math.round(sum / quantTable[k]);
+    }
+}
+
+// Which 8x8 cells of the image have a pixel that differs between `before` and `after`.
+function findChangedCells(before: PixelData, after: PixelData): { cells: Uint8Array, cellsWide: number, any: boolean } {
+    const cellsWide = Math.ceil(after.width / 8);
+    const cells = new Uint8Array(cellsWide * Math.ceil(after.height / 8));
+    let any = false;
+    for (let y = 0; y < after.height; y++) {
+        for (let x = 0; x < after.width; x++) {
+            const i = (y * after.width + x) * 4;
+            if (before.data[i] !== after.data[i] || before.data[i + 1] !== after.data[i + 1] || before.data[i + 2] !== after.data[i + 2]) {
+                cells[(y >> 3) * cellsWide + (x >> 3)] = 1;
+                any = true;
+            }
+        }
+    }
+    return { cells, cellsWide, any };
+}
+
+// `original` with the blocks under every pixel that differs between `before`
+// (the original as decoded) and `after` encoded again from `after`, at the
+// original's quantisation. Both are in the file's stored orientation. Returns
+// null if the file isn't one this can rewrite.
+export function replaceChangedJpegBlocks(original: Uint8Array, before: PixelData, after: PixelData): Uint8Array | null {
+    let parsed: ParsedJpeg;
+    try {
+        parsed = parseJpeg(original);
+    } catch (error) {
+        if (error instanceof UnsupportedJpegError) return null;
+        throw error;
+    }
+    const { frame, quantTables, huffmanTables, restartInterval } = parsed;
+    if (frame.width !== after.width || frame.height !== after.height || before.width !== after.width || before.height !== after.height) return null;
+
+    const { cells, cellsWide, any } = findChangedCells(before, after);
+    if (!any) return original;
+    const cellsHigh = cells.length / cellsWide;
+    frame.components.forEach((component, index) => {
+        const quantTable = quantTables[component.quantTable];
+        if (!quantTable) return;
+        // Image cells per block side.
+        const scaleX = frame.hMax / component.h;
+        const scaleY = frame.vMax / component.v;
+        for (let blockY = 0; blockY < frame.mcusHigh * component.v; blockY++) {
+            for (let blockX = 0; blockX < component.blocksPerLine; blockX++) {
+                let changed = false;
+                for (let y = blockY * scaleY; y < Math.min(cellsHigh, (blockY + 1) * scaleY) && !changed; y++) {
+                    for (let x = blockX * scaleX; x < Math.min(cellsWide, (blockX + 1) * scaleX) && !changed; x++) {
+                        changed = cells[y * cellsWide + x] === 1;
+                    }
+                }
+                if (changed) encodeBlock(after, frame, index, blockX, blockY, quantTable, component.coefficients, (blockY * component.blocksPerLine + blockX) * 64);
+            }
+        }
+    });
+
+    // The original tables are kept if they still code every symbol; otherwise
+    // optimal ones are built from the symbol counts.
+    const counts = new Map<number, number[]>();
+    const keyOf = (component: number, tableClass: number) => tableKey(tableClass, tableClass ? frame.components[component].acTable : frame.components[component].dcTable);
+    encodeScan(frame, restartInterval, (component, tableClass, symbol) => {
+        const key = keyOf(component, tableClass);
+        if (!counts.has(key)) counts.set(key, new Array<number>(256).fill(0));
+        counts.get(key)![symbol]++;
+    }, () => {});
+    const covered = [...counts].every(([key, tableCounts]) => {
+        const codes = buildCodes(huffmanTables.get(key)!);
+        return tableCounts.every((count, symbol) => count === 0 || codes.has(symbol));
+    });
+    const tables = covered ? huffmanTables : new Map([...counts].map(([key, tableCounts]) => [key, buildOptimalTable(tableCounts)]));
+
+    const codes = new Map([...tables].map(([key, spec]) => [key, buildCodes(spec)]));
+    const writer = new BitWriter();
+    encodeScan(frame, restartInterval, (component, tableClass, symbol, extra, extraLength) => {
+        const { code, length } = codes.get(keyOf(component, tableClass))!.get(symbol)!;
+        writer.write(code, length);
+        writer.write(extra, extraLength);
+    }, count => {
+        writer.flush();
+        writer.marker(MARKER.rst0 + count);
+    });
+    writer.flush();
+    const data = writer.toBytes();
+
+    // New tables go just before the scan header; the old ones are dropped.
+    const header = covered ? [original.subarray(0, parsed.scanStart)] : [withoutSegment(original.subarray(0, parsed.scanStart), MARKER.dht), dhtSegment(tables)];
+    const parts = [...header, original.subarray(parsed.scanStart, parsed.dataStart), data, original.subarray(parsed.dataEnd)];
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        output.set(part, offset);
+        offset += part.length;
+    });
+    return output;
+}
+
+// The header segments (SOI onwards) without those of one marker.
+function withoutSegment(header: Uint8Array, marker: number): Uint8Array {
+    const kept: number[] = [0xff, 0xd8];
+    for (let offset = 2; offset + 4 <= header.length;) {
+        if (header[offset + 1] === 0xff) {
+            offset++;
+            continue;
+        }
+        const end = offset + 2 + ((header[offset + 2] << 8) | header[offset + 3]);
+        if (header[offset + 1] !== marker) kept.push(...header.subarray(offset, end));
+        offset = end;
+    }
+    return new Uint8Array(kept);
+}
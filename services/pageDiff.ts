@@ -0,0 +1,125 @@
+import { canvasToDataUrl, createCanvas, getContext2d, loadImageToCanvas, ScanCanvas } from './canvasFactory';
+
+// A channel difference above this counts as a change. Re-rendering an
+// unchanged PDF page is pixel-identical, so this only needs to absorb JPEG noise.
+const CHANGE_THRESHOLD = 24;
+// Changed pixels are grouped on a grid of cells this many pixels wide, and
+// touching cells merge into one area, so a change is reported once rather than
+// as thousands of scattered pixels.
+const CELL_SIZE = 8;
+// Unchanged pixels are faded towards white by this much so changes stand out.
+const GHOST_FADE = 0.75;
+const CHANGE_COLOR: [number, number, number] = [236, 72, 153];
+
+export interface DiffRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PageDiff {
+    // The modified page, faded, with changed pixels highlighted and each changed area boxed.
+    dataUrl: string;
+    regions: DiffRegion[];
+    changedPixels: number;
+}
+
+async function loadDataUrl(dataUrl: string): Promise<ScanCanvas> {
+    return loadImageToCanvas(await fetch(dataUrl).then(res => res.blob()));
+}
+
+// Flood-fills touching changed cells (including diagonals) into bounding boxes.
+function groupChangedCells(cells: Uint8Array, columns: number, rows: number, width: number, height: number): DiffRegion[] {
+    const regions: DiffRegion[] = [];
+    const seen = new Uint8Array(cells.length);
+    for (let start = 0; start < cells.length; start++) {
+        if (!cells[start] || seen[start]) continue;
+        let minCol = columns, minRow = rows, maxCol = 0, maxRow = 0;
+        const stack = [start];
+        seen[start] = 1;
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const col = cell % columns;
+            const row = Math.floor(cell / columns);
+            minCol = Math.min(minCol, col);
+            maxCol = Math.max(maxCol, col);
+            minRow = Math.min(minRow, row);
+            maxRow = Math.max(maxRow, row);
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const c = col + dx;
+                    const r = row + dy;
+                    if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+                    const next = r * columns + c;
+                    if (cells[next] && !seen[next]) {
+                        seen[next] = 1;
+                        stack.push(next);
+                    }
+                }
+            }
+        }
+        const x = minCol * CELL_SIZE;
+        const y = minRow * CELL_SIZE;
+        regions.push({
+            x,
+            y,
+            width: Math.min(width, (maxCol + 1) * CELL_SIZE) - x,
+            height: Math.min(height, (maxRow + 1) * CELL_SIZE) - y,
+        });
+    }
+    return regions;
+}
+
+// Compares two renders of the same page. The modified page is drawn at the
+// original's size if the two differ.
+export async function diffPages(originalDataUrl: string, modifiedDataUrl: string): Promise<PageDiff> {
+    const [original, modified] = await Promise.all([loadDataUrl(originalDataUrl), loadDataUrl(modifiedDataUrl)]);
+    const { width, height } = original;
+
+    const before = getContext2d(original, { willReadFrequently: true }).getImageData(0, 0, width, height).data;
+    const output = createCanvas(width, height);
+    const ctx = getContext2d(output, { willReadFrequently: true });
+    ctx.drawImage(modified, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const after = imageData.data;
+
+    const columns = Math.ceil(width / CELL_SIZE);
+    const rows = Math.ceil(height / CELL_SIZE);
+    const cells = new Uint8Array(columns * rows);
+    let changedPixels = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const difference = Math.max(
+                Math.abs(before[i] - after[i]),
+                Math.abs(before[i + 1] - after[i + 1]),
+                Math.abs(before[i + 2] - after[i + 2]),
+                Math.abs(before[i + 3] - after[i + 3])
+            );
+            if (difference > CHANGE_THRESHOLD) {
+                changedPixels++;
+                cells[Math.floor(y / CELL_SIZE) * columns + Math.floor(x / CELL_SIZE)] = 1;
+                [after[i], after[i + 1], after[i + 2]] = CHANGE_COLOR;
+            } else {
+                for (let c = 0; c < 3; c++) {
+                    after[i + c] += (255 - after[i + c]) * GHOST_FADE;
+                }
+            }
+            after[i + 3] = 255;
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    const regions = groupChangedCells(cells, columns, rows, width, height);
+    // Boxes keep even a few changed pixels visible when the page is zoomed out.
+    const lineWidth = Math.max(2, Math.round(Math.max(width, height) / 400));
+    ctx.lineWidth = lineWidth;
+    ctx.strokeStyle = `rgb(${CHANGE_COLOR.join(', ')})`;
+    regions.forEach(region => {
+        ctx.strokeRect(region.x - lineWidth * 2, region.y - lineWidth * 2, region.width + lineWidth * 4, region.height + lineWidth * 4);
+    });
+
+    return { dataUrl: await canvasToDataUrl(output), regions, changedPixels };
+}
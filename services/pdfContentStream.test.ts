@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToLatin1, collectPaintedItems, latin1ToBytes, parseContentStream, removeRanges, XObjectInfo } from './pdfContentStream';
+
+const XOBJECTS: Record<string, XObjectInfo> = {
+    Im1: { subtype: 'image' },
+    Fm1: { subtype: 'form', bbox: [0, 0, 10, 10], matrix: [2, 0, 0, 2, 0, 0] },
+};
+
+describe('pdfContentStream', () => {
+    it('round-trips every byte through Latin-1', () => {
+        const bytes = new Uint8Array(256).map((_, i) => i);
+        expect(latin1ToBytes(bytesToLatin1(bytes))).toEqual(bytes);
+    });
+
+    it('parses operators with their operands and byte ranges', () => {
+        const src = 'q 1 0 0 1 5 -2.5 cm /Im1 Do Q\nBT (a) Tj [(b) 2] TJ ET';
+        const operations = parseContentStream(src);
+        expect(operations.map(op => op.operator)).toEqual(['q', 'cm', 'Do', 'Q', 'BT', 'Tj', 'TJ', 'ET']);
+        expect(operations[1].operands).toEqual([1, 0, 0, 1, 5, -2.5]);
+        expect(operations[2].operands).toEqual(['/Im1']);
+        expect(operations[5].operands).toEqual([null]);
+        expect(src.slice(operations[2].start, operations[2].end)).toBe('/Im1 Do');
+    });
+
+    it('locates paths, images and forms under the current transformation', () => {
+        const src = '0 0 5 5 re W n 1 0 0 1 0 0 cm 10 10 20 20 re f q 50 0 0 50 100 100 cm /Im1 Do Q 1 0 0 1 200 0 cm /Fm1 Do /Missing Do';
+        const items = collectPaintedItems(parseContentStream(src), name => XOBJECTS[name]);
+        expect(items.map(item => item.kind)).toEqual(['path', 'image', 'form']);
+        expect(items.map(item => item.bounds)).toEqual([
+            { x: 10, y: 10, width: 20, height: 20 },
+            { x: 100, y: 100, width: 50, height: 50 },
+            { x: 200, y: 0, width: 20, height: 20 },
+        ]);
+        expect(items[2].formMatrix).toEqual([2, 0, 0, 2, 200, 0]);
+    });
+
+    it('removes painted items without disturbing the rest of the stream', () => {
+        const src = '0 0 1 rg 10 10 20 20 re f q 50 0 0 50 0 0 cm /Im1 Do Q 1 0 0 rg 0 0 5 5 re f';
+        const [path, image] = collectPaintedItems(parseContentStream(src), name => XOBJECTS[name]);
+        const remaining = parseContentStream(removeRanges(src, [image, path]));
+        expect(remaining.map(op => op.operator)).toEqual(['rg', 'q', 'cm', 'Q', 'rg', 're', 'f']);
+    });
+});
@@ -0,0 +1,297 @@
+// A small PDF content stream reader: just enough of a lexer and graphics-state
+// interpreter to locate what a page paints inside a given region, and to cut
+// those operations back out of the stream by byte range.
+//
+// Content is handled as a Latin-1 string so that string offsets are byte offsets.
+
+export type ContentOperand = number | string | null;
+
+export interface ContentOperation {
+    operator: string;
+    // Numbers and names ('/Name') are kept; strings, arrays and dicts become null.
+    operands: ContentOperand[];
+    start: number;
+    end: number;
+}
+
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PaintedItem {
+    kind: 'path' | 'image' | 'form' | 'inlineImage';
+    // Byte ranges to remove to erase this item (a path spans its construction and paint ops).
+    start: number;
+    end: number;
+    bounds: Rect;
+    xObjectName?: string;
+    // For forms: maps the form's own space into the initial space, i.e. its
+    // /Matrix followed by the CTM it was drawn with.
+    formMatrix?: Matrix;
+}
+
+// What a named XObject is. Forms carry their /BBox and /Matrix, since unlike
+// images they aren't confined to the unit square.
+export type XObjectInfo =
+    | { subtype: 'image' }
+    | { subtype: 'form'; bbox: number[]; matrix: Matrix };
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+const WHITESPACE = '\0\t\n\f\r ';
+const DELIMITERS = '()<>[]{}/%';
+const PATH_CONSTRUCTION = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're']);
+const PATH_PAINTING = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n']);
+
+export function bytesToLatin1(bytes: Uint8Array): string {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return text;
+}
+
+export function latin1ToBytes(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        bytes[i] = text.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+}
+
+function skipLiteralString(src: string, i: number): number {
+    let depth = 0;
+    for (; i < src.length; i++) {
+        const ch = src[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+    return src.length;
+}
+
+function readRegular(src: string, i: number): number {
+    while (i < src.length && !WHITESPACE.includes(src[i]) && !DELIMITERS.includes(src[i])) i++;
+    return i;
+}
+
+// Inline image data is binary; it ends at the first "EI" surrounded by whitespace.
+function skipInlineImage(src: string, i: number): number {
+    const id = src.indexOf('ID', i);
+    if (id < 0) return src.length;
+    const pattern = /[\0\t\n\f\r ]EI(?=[\0\t\n\f\r ]|$)/g;
+    pattern.lastIndex = id + 3;
+    const match = pattern.exec(src);
+    return match ? match.index + 3 : src.length;
+}
+
+export function parseContentStream(src: string): ContentOperation[] {
+    const operations: ContentOperation[] = [];
+    let operands: ContentOperand[] = [];
+    let opStart = -1;
+    // Nesting depth of arrays and dicts; their contents form a single null operand.
+    let depth = 0;
+    let i = 0;
+
+    const pushOperand = (value: ContentOperand) => {
+        if (depth === 0) operands.push(value);
+    };
+
+    while (i < src.length) {
+        const ch = src[i];
+        if (WHITESPACE.includes(ch)) {
+            i++;
+            continue;
+        }
+        if (ch === '%') {
+            while (i < src.length && src[i] !== '\n' && src[i] !== '\r') i++;
+            continue;
+        }
+        if (opStart < 0) opStart = i;
+
+        if (ch === '(') {
+            i = skipLiteralString(src, i);
+            pushOperand(null);
+        } else if (ch === '<' && src[i + 1] === '<') {
+            depth++;
+            i += 2;
+        } else if (ch === '>' && src[i + 1] === '>') {
+            depth = Math.max(0, depth - 1);
+            i += 2;
+            pushOperand(null);
+        } else if (ch === '<') {
+            const close = src.indexOf('>', i);
+            i = close < 0 ? src.length : close + 1;
+            pushOperand(null);
+        } else if (ch === '[' || ch === '{') {
+            depth++;
+            i++;
+        } else if (ch === ']' || ch === '}') {
+            depth = Math.max(0, depth - 1);
+            i++;
+            pushOperand(null);
+        } else if (ch === '/') {
+            const end = readRegular(src, i + 1);
+            pushOperand(src.slice(i, end));
+            i = end;
+        } else if (DELIMITERS.includes(ch)) {
+            // Stray delimiter (e.g. an unmatched ')'); skip it.
+            i++;
+        } else {
+            const end = readRegular(src, i);
+            const token = src.slice(i, end);
+            i = end;
+            const number = Number(token);
+            if (!Number.isNaN(number) && /^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+                pushOperand(number);
+            } else if (token === 'true' || token === 'false' || token === 'null' || depth > 0) {
+                pushOperand(null);
+            } else {
+                if (token === 'BI') i = skipInlineImage(src, i);
+                operations.push({ operator: token, operands, start: opStart, end: i });
+                operands = [];
+                opStart = -1;
+            }
+        }
+    }
+
+    return operations;
+}
+
+export function multiplyMatrix(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[1] * n[2],
+        m[0] * n[1] + m[1] * n[3],
+        m[2] * n[0] + m[3] * n[2],
+        m[2] * n[1] + m[3] * n[3],
+        m[4] * n[0] + m[5] * n[2] + n[4],
+        m[4] * n[1] + m[5] * n[3] + n[5],
+    ];
+}
+
+function transformPoint(m: Matrix, x: number, y: number): { x: number; y: number } {
+    return { x: x * m[0] + y * m[2] + m[4], y: x * m[1] + y * m[3] + m[5] };
+}
+
+function boundsOf(points: { x: number; y: number }[]): Rect {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Walks the operations tracking the CTM, and reports every path, image, form and
+// inline image with its bounds in the coordinate space of `initialCtm`.
+// XObjects `lookupXObject` can't identify (PostScript, missing) are left out.
+export function collectPaintedItems(
+    operations: ContentOperation[],
+    lookupXObject: (name: string) => XObjectInfo | undefined,
+    initialCtm: Matrix = IDENTITY_MATRIX
+): PaintedItem[] {
+    const items: PaintedItem[] = [];
+    const stack: Matrix[] = [];
+    let ctm = initialCtm;
+    let pathPoints: { x: number; y: number }[] = [];
+    let pathStart = -1;
+    let isClipping = false;
+
+    const nums = (op: ContentOperation) => op.operands.map(v => (typeof v === 'number' ? v : 0));
+    const unitSquareBounds = () => boundsOf([
+        transformPoint(ctm, 0, 0),
+        transformPoint(ctm, 1, 0),
+        transformPoint(ctm, 0, 1),
+        transformPoint(ctm, 1, 1),
+    ]);
+
+    for (const op of operations) {
+        const { operator } = op;
+        if (operator === 'q') {
+            stack.push(ctm);
+        } else if (operator === 'Q') {
+            ctm = stack.pop() ?? initialCtm;
+        } else if (operator === 'cm') {
+            ctm = multiplyMatrix(nums(op).slice(0, 6) as Matrix, ctm);
+        } else if (PATH_CONSTRUCTION.has(operator)) {
+            if (pathStart < 0) pathStart = op.start;
+            const n = nums(op);
+            if (operator === 're') {
+                const [x, y, w, h] = n;
+                pathPoints.push(transformPoint(ctm, x, y), transformPoint(ctm, x + w, y + h), transformPoint(ctm, x + w, y), transformPoint(ctm, x, y + h));
+            } else {
+                for (let k = 0; k + 1 < n.length; k += 2) {
+                    pathPoints.push(transformPoint(ctm, n[k], n[k + 1]));
+                }
+            }
+        } else if (operator === 'W' || operator === 'W*') {
+            isClipping = true;
+        } else if (PATH_PAINTING.has(operator)) {
+            // Clipping paths change how everything after them renders, so they are never reported.
+            if (pathPoints.length > 0 && !isClipping && operator !== 'n') {
+                items.push({ kind: 'path', start: pathStart, end: op.end, bounds: boundsOf(pathPoints) });
+            }
+            pathPoints = [];
+            pathStart = -1;
+            isClipping = false;
+        } else if (operator === 'Do') {
+            const name = op.operands[0];
+            const info = typeof name === 'string' ? lookupXObject(name.slice(1)) : undefined;
+            if (info?.subtype === 'image') {
+                items.push({ kind: 'image', start: op.start, end: op.end, bounds: unitSquareBounds(), xObjectName: (name as string).slice(1) });
+            } else if (info?.subtype === 'form') {
+                const formMatrix = multiplyMatrix(info.matrix, ctm);
+                const [x1, y1, x2, y2] = info.bbox;
+                items.push({
+                    kind: 'form',
+                    start: op.start,
+                    end: op.end,
+                    bounds: boundsOf([transformPoint(formMatrix, x1, y1), transformPoint(formMatrix, x2, y1), transformPoint(formMatrix, x1, y2), transformPoint(formMatrix, x2, y2)]),
+                    xObjectName: (name as string).slice(1),
+                    formMatrix,
+                });
+            }
+        } else if (operator === 'BI') {
+            items.push({ kind: 'inlineImage', start: op.start, end: op.end, bounds: unitSquareBounds() });
+        }
+    }
+
+    return items;
+}
+
+export function isRectInside(inner: Rect, outer: Rect, tolerance = 0): boolean {
+    return inner.x >= outer.x - tolerance
+        && inner.y >= outer.y - tolerance
+        && inner.x + inner.width <= outer.x + outer.width + tolerance
+        && inner.y + inner.height <= outer.y + outer.height + tolerance;
+}
+
+export function rectsIntersect(a: Rect, b: Rect, tolerance = 0): boolean {
+    return a.x <= b.x + b.width + tolerance
+        && b.x <= a.x + a.width + tolerance
+        && a.y <= b.y + b.height + tolerance
+        && b.y <= a.y + a.height + tolerance;
+}
+
+// Blanks the given byte ranges. Ranges are replaced by a single space so the
+// tokens on either side stay separated.
+export function removeRanges(src: string, ranges: { start: number; end: number }[]): string {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    let result = '';
+    let cursor = 0;
+    for (const { start, end } of sorted) {
+        if (start < cursor) continue;
+        result += src.slice(cursor, start) + ' ';
+        cursor = end;
+    }
+    return result + src.slice(cursor);
+}
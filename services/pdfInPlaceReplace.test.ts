@@ -0,0 +1,42 @@
+import { PDFDocument, PDFName, PDFRef, PDFStream, decodePDFRawStream, PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { bytesToLatin1 } from './pdfContentStream';
+import { removeQrInPlace } from './pdfInPlaceReplace';
+
+// A page whose content is `source`, uncompressed.
+async function createPage(source: string) {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([300, 300]);
+    page.node.set(PDFName.of('Contents'), pdfDoc.context.register(pdfDoc.context.stream(source)));
+    return { pdfDoc, page };
+}
+
+function readContent(pdfDoc: PDFDocument, ref: PDFRef): string {
+    const stream = pdfDoc.context.lookup(ref, PDFStream);
+    return bytesToLatin1(stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents());
+}
+
+describe('removeQrInPlace', () => {
+    // A 25-module code of 2-point modules at (100, 100), its quiet zone reaching 8 points out.
+    const bounds = { x: 100, y: 100, width: 50, height: 50 };
+
+    it('removes the code and its quiet zone but keeps a border just beyond it', async () => {
+        const { pdfDoc, page } = await createPage([
+            '1 1 1 rg 92 92 66 66 re f',
+            '0 0 0 rg 100 100 14 14 re f 136 136 14 14 re f',
+            '0 0 1 rg 91 91 68 1 re f',
+        ].join('\n'));
+        const result = await removeQrInPlace(pdfDoc, page, bounds, 2);
+
+        expect(result).toEqual({ removedItems: 3, swappedImage: false });
+        const content = readContent(pdfDoc, page.node.get(PDFName.of('Contents')) as PDFRef);
+        expect(content).toContain('91 91 68 1 re f');
+        expect(content).not.toContain('re f 136');
+        expect(content).not.toContain('92 92 66 66');
+    });
+
+    it('fails when nothing is drawn over the code', async () => {
+        const { pdfDoc, page } = await createPage('0 0 0 rg 0 0 20 20 re f');
+        await expect(removeQrInPlace(pdfDoc, page, bounds, 2)).rejects.toThrow('Could not find the original QR code');
+    });
+});
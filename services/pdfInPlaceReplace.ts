@@ -0,0 +1,215 @@
+import { PDFDocument, PDFPage, PDFImage, PDFName, PDFDict, PDFArray, PDFNumber, PDFObject, PDFRef, PDFRawStream, PDFStream, decodePDFRawStream } from 'pdf-lib';
+import {
+    Rect,
+    Matrix,
+    XObjectInfo,
+    IDENTITY_MATRIX,
+    parseContentStream,
+    collectPaintedItems,
+    isRectInside,
+    rectsIntersect,
+    removeRanges,
+    bytesToLatin1,
+    latin1ToBytes,
+} from './pdfContentStream';
+
+export interface InPlaceRemovalResult {
+    removedItems: number;
+    // True when the old code was an image XObject whose stream now holds the new
+    // code; the caller must not draw the new code a second time.
+    swappedImage: boolean;
+}
+
+function getContentStreamRefs(page: PDFPage): PDFRef[] {
+    const contents = page.node.get(PDFName.of('Contents'));
+    if (contents instanceof PDFRef) return [contents];
+    if (contents instanceof PDFArray) {
+        return contents.asArray().filter((item): item is PDFRef => item instanceof PDFRef);
+    }
+    return [];
+}
+
+function decodeStream(stream: PDFStream): Uint8Array {
+    return stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+}
+
+function getXObjects(resources: PDFDict | undefined): PDFDict | undefined {
+    return resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+}
+
+// Nested forms deeper than this are left alone; real files rarely go past two or three.
+const MAX_FORM_DEPTH = 8;
+
+type ByteRange = { start: number; end: number };
+
+// How many times each indirect object is referenced from anywhere in the
+// document. A stream referenced once can be changed without affecting anything
+// else that draws it.
+function countReferences(pdfDoc: PDFDocument): Map<PDFRef, number> {
+    const counts = new Map<PDFRef, number>();
+    const visit = (object: PDFObject | undefined) => {
+        if (object instanceof PDFRef) counts.set(object, (counts.get(object) ?? 0) + 1);
+        else if (object instanceof PDFDict) object.values().forEach(visit);
+        else if (object instanceof PDFArray) object.asArray().forEach(visit);
+        else if (object instanceof PDFStream) visit(object.dict);
+    };
+    pdfDoc.context.enumerateIndirectObjects().forEach(([, object]) => visit(object));
+    return counts;
+}
+
+// An XObject drawn from the page's own resources can only be swapped in place
+// if nothing else draws it: no other page lists it in its resources, nothing
+// else in the document refers to it, and this page paints it exactly once.
+function isXObjectExclusive(pdfDoc: PDFDocument, page: PDFPage, ref: PDFRef, usesOnPage: number, refCounts: Map<PDFRef, number>): boolean {
+    if (usesOnPage !== 1 || refCounts.get(ref) !== 1) return false;
+    return pdfDoc.getPages().every(other => {
+        if (other === page) return true;
+        const xObjects = getXObjects(other.node.Resources());
+        return !xObjects || !xObjects.values().includes(ref);
+    });
+}
+
+function deleteIfRef(pdfDoc: PDFDocument, value: unknown) {
+    if (value instanceof PDFRef) pdfDoc.context.delete(value);
+}
+
+function readNumbers(pdfDoc: PDFDocument, array: PDFArray | undefined): number[] {
+    return array?.asArray().map(value => (pdfDoc.context.lookup(value) as PDFNumber | undefined)?.asNumber?.() ?? NaN) ?? [];
+}
+
+function describeXObjects(pdfDoc: PDFDocument, xObjects: PDFDict | undefined) {
+    return (name: string): XObjectInfo | undefined => {
+        const xObject = xObjects?.lookupMaybe(PDFName.of(name), PDFStream);
+        const subtype = xObject?.dict.get(PDFName.of('Subtype'));
+        if (subtype === PDFName.of('Image')) return { subtype: 'image' };
+        if (!xObject || subtype !== PDFName.of('Form')) return undefined;
+        const bbox = readNumbers(pdfDoc, xObject.dict.lookupMaybe(PDFName.of('BBox'), PDFArray));
+        if (bbox.length !== 4 || bbox.some(Number.isNaN)) return undefined;
+        const matrix = readNumbers(pdfDoc, xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray));
+        return { subtype: 'form', bbox, matrix: matrix.length === 6 && !matrix.some(Number.isNaN) ? matrix as Matrix : IDENTITY_MATRIX };
+    };
+}
+
+// Swaps a form's content for `source`, keeping the rest of its dictionary.
+function rewriteFormStream(pdfDoc: PDFDocument, ref: PDFRef, form: PDFStream, source: string) {
+    const stream = pdfDoc.context.flateStream(latin1ToBytes(source));
+    const encodingKeys = [PDFName.of('Filter'), PDFName.of('DecodeParms'), PDFName.of('Length')];
+    form.dict.entries().forEach(([key, value]) => {
+        if (!encodingKeys.includes(key)) stream.dict.set(key, value);
+    });
+    pdfDoc.context.assign(ref, stream);
+}
+
+// The quiet zone the QR spec requires on each side of a code, in modules.
+const QUIET_ZONE_MODULES = 4;
+
+// Removes whatever paints the old QR code on `page`: vector paths and inline
+// images inside `bounds` plus the quiet zone, measured in modules of
+// `moduleSize` points, are cut from the content stream, and an image XObject
+// drawn there has its stream replaced by `newQrImage`. Form XObjects over the
+// code are searched too; their content is only edited when nothing else draws
+// them, and forms themselves are never deleted. Old content streams nothing
+// else uses are deleted from the document so the original payload can't be
+// recovered.
+export async function removeQrInPlace(
+    pdfDoc: PDFDocument,
+    page: PDFPage,
+    bounds: Rect,
+    moduleSize: number,
+    newQrImage?: PDFImage
+): Promise<InPlaceRemovalResult> {
+    // Anything reaching past the quiet zone belongs to the page around the code.
+    const tolerance = moduleSize * QUIET_ZONE_MODULES;
+    const context = pdfDoc.context;
+    const refCounts = countReferences(pdfDoc);
+    const pageResources = page.node.Resources();
+    let removedItems = 0;
+    let swappedImage = false;
+
+    // Returns the ranges to cut from `source`, the page's content or that of a
+    // form drawn only here.
+    const removeFromStream = async (
+        source: string,
+        resources: PDFDict | undefined,
+        ctm: Matrix,
+        depth: number
+    ): Promise<ByteRange[]> => {
+        const operations = parseContentStream(source);
+        const xObjects = getXObjects(resources);
+        const countUses = (name: string) => operations.filter(op => op.operator === 'Do' && op.operands[0] === `/${name}`).length;
+        const removals: ByteRange[] = [];
+
+        for (const item of collectPaintedItems(operations, describeXObjects(pdfDoc, xObjects), ctm)) {
+            if (!rectsIntersect(item.bounds, bounds, tolerance)) continue;
+            const inside = isRectInside(item.bounds, bounds, tolerance);
+            if (item.kind === 'path' || item.kind === 'inlineImage') {
+                if (inside) {
+                    removals.push(item);
+                    removedItems++;
+                }
+                continue;
+            }
+
+            const name = item.xObjectName!;
+            const ref = xObjects?.get(PDFName.of(name));
+            const xObject = ref instanceof PDFRef ? context.lookup(ref, PDFStream) : undefined;
+            const isExclusive = ref instanceof PDFRef && (depth === 0
+                ? isXObjectExclusive(pdfDoc, page, ref, countUses(name), refCounts)
+                : countUses(name) === 1 && refCounts.get(ref) === 1);
+
+            if (item.kind === 'form') {
+                if (inside) {
+                    // Drawn entirely within the code: this use goes, the form stays.
+                    removals.push(item);
+                    removedItems++;
+                } else if (xObject && isExclusive && depth < MAX_FORM_DEPTH) {
+                    // A form drawn elsewhere too can't be edited without changing those copies.
+                    const formSource = bytesToLatin1(decodeStream(xObject));
+                    const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+                    const formRemovals = await removeFromStream(formSource, formResources, item.formMatrix!, depth + 1);
+                    if (formRemovals.length > 0) {
+                        rewriteFormStream(pdfDoc, ref as PDFRef, xObject, removeRanges(formSource, formRemovals));
+                    }
+                }
+                continue;
+            }
+
+            if (!inside) continue;
+            removedItems++;
+            if (!xObject || !isExclusive) {
+                // Still drawn elsewhere: only this use is removed.
+                removals.push(item);
+            } else if (newQrImage && !swappedImage) {
+                await newQrImage.embed();
+                deleteIfRef(pdfDoc, xObject.dict.get(PDFName.of('SMask')));
+                deleteIfRef(pdfDoc, xObject.dict.get(PDFName.of('Mask')));
+                context.assign(ref as PDFRef, context.lookup(newQrImage.ref) as PDFStream);
+                context.delete(newQrImage.ref);
+                swappedImage = true;
+            } else {
+                removals.push(item);
+                deleteIfRef(pdfDoc, xObject.dict.get(PDFName.of('SMask')));
+                deleteIfRef(pdfDoc, xObject.dict.get(PDFName.of('Mask')));
+                xObjects?.delete(PDFName.of(name));
+                context.delete(ref as PDFRef);
+            }
+        }
+        return removals;
+    };
+
+    const contentRefs = getContentStreamRefs(page);
+    const source = contentRefs
+        .map(ref => bytesToLatin1(decodeStream(context.lookup(ref, PDFStream))))
+        .join('\n');
+    const removals = await removeFromStream(source, pageResources, IDENTITY_MATRIX, 0);
+    if (removedItems === 0) {
+        throw new Error("Could not find the original QR code in the page content. It may be part of a larger image; use cover mode instead.");
+    }
+
+    const newContentRef = context.register(context.flateStream(latin1ToBytes(removeRanges(source, removals))));
+    page.node.set(PDFName.of('Contents'), newContentRef);
+    // Streams shared with another page (templated documents do this) stay for that page.
+    contentRefs.filter(ref => refCounts.get(ref) === 1).forEach(ref => context.delete(ref));
+
+    return { removedItems, swappedImage };
+}
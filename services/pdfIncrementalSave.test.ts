@@ -0,0 +1,44 @@
+import { PDFDocument, rgb } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { prepareIncrementalSave, saveIncrementally } from './pdfIncrementalSave';
+
+async function createBasePdf(useObjectStreams: boolean): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([200, 200]).drawRectangle({ x: 10, y: 10, width: 50, height: 50, color: rgb(0, 0, 0) });
+    return pdfDoc.save({ useObjectStreams });
+}
+
+async function addPage(bytes: Uint8Array): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(bytes);
+    prepareIncrementalSave(pdfDoc, bytes);
+    pdfDoc.addPage([100, 100]).drawCircle({ x: 50, y: 50, size: 20 });
+    return saveIncrementally(pdfDoc, bytes);
+}
+
+describe('saveIncrementally', () => {
+    for (const useObjectStreams of [false, true]) {
+        it(`appends updates after a cross-reference ${useObjectStreams ? 'stream' : 'table'}`, async () => {
+            const base = await createBasePdf(useObjectStreams);
+            const once = await addPage(base);
+            const twice = await addPage(once);
+
+            expect(once.subarray(0, base.length)).toEqual(base);
+            expect(twice.subarray(0, once.length)).toEqual(once);
+            const reloaded = await PDFDocument.load(twice, { throwOnInvalidObject: true });
+            expect(reloaded.getPageCount()).toBe(3);
+            expect(reloaded.getPages().map(page => page.getWidth())).toEqual([200, 100, 100]);
+        });
+    }
+
+    it('returns the original bytes when nothing changed', async () => {
+        const base = await createBasePdf(false);
+        const pdfDoc = await PDFDocument.load(base);
+        prepareIncrementalSave(pdfDoc, base);
+        expect(await saveIncrementally(pdfDoc, base)).toBe(base);
+    });
+
+    it('refuses to save a document that was not prepared', async () => {
+        const base = await createBasePdf(false);
+        await expect(saveIncrementally(await PDFDocument.load(base), base)).rejects.toThrow('prepareIncrementalSave');
+    });
+});
@@ -0,0 +1,200 @@
+import { PDFDocument, PDFObject, PDFRef } from 'pdf-lib';
+import { bytesToLatin1, latin1ToBytes } from './pdfContentStream';
+
+// pdf-lib can only write a document from scratch, which renumbers and
+// recompresses everything and so breaks digital signatures. This writes an
+// incremental update instead: the original bytes untouched, followed by the
+// objects that changed, a cross-reference section for them and a trailer
+// pointing back at the previous one (/Prev).
+//
+// What changed is found by comparing each object's serialised bytes against a
+// snapshot taken before editing, so it doesn't depend on how the edit was made.
+
+// Per object: its serialised length and two independent 32-bit hashes.
+type Snapshot = Map<string, string>;
+
+const snapshots = new WeakMap<PDFDocument, Snapshot>();
+
+// How far back from the end of the file to look for `startxref`.
+const TAIL_BYTES = 2048;
+
+function serialize(object: PDFObject): Uint8Array {
+    const bytes = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(bytes, 0);
+    return bytes;
+}
+
+function fingerprint(bytes: Uint8Array): string {
+    let fnv = 0x811c9dc5;
+    let djb = 5381;
+    for (let i = 0; i < bytes.length; i++) {
+        fnv = Math.imul(fnv ^ bytes[i], 0x01000193);
+        djb = (Math.imul(djb, 33) + bytes[i]) | 0;
+    }
+    return `${bytes.length}:${fnv >>> 0}:${djb >>> 0}`;
+}
+
+const refKey = (ref: PDFRef) => `${ref.objectNumber} ${ref.generationNumber}`;
+
+function takeSnapshot(pdfDoc: PDFDocument): Snapshot {
+    return new Map(pdfDoc.context.enumerateIndirectObjects().map(([ref, object]) => [refKey(ref), fingerprint(serialize(object))]));
+}
+
+interface PreviousXref {
+    offset: number;
+    isStream: boolean;
+    size: number;
+}
+
+// Reads the last cross-reference section's offset, kind and /Size.
+function readPreviousXref(bytes: Uint8Array): PreviousXref {
+    const tail = bytesToLatin1(bytes.subarray(Math.max(0, bytes.length - TAIL_BYTES)));
+    const match = [...tail.matchAll(/startxref\s+(\d+)/g)].pop();
+    if (!match) throw new Error('The PDF has no cross-reference offset, so it cannot be updated incrementally.');
+    const offset = Number(match[1]);
+    const section = bytesToLatin1(bytes.subarray(offset, offset + TAIL_BYTES));
+    const isStream = !section.trimStart().startsWith('xref');
+    // A table's /Size is in the trailer after it; a stream's in its own dictionary.
+    const dictionary = isStream ? section : bytesToLatin1(bytes.subarray(offset)).split('trailer')[1] ?? '';
+    const size = Number(dictionary.match(/\/Size\s+(\d+)/)?.[1]);
+    if (!size) throw new Error('The PDF trailer has no /Size, so it cannot be updated incrementally.');
+    return { offset, isStream, size };
+}
+
+// Must run before the document is edited. Records the objects' current state
+// and keeps new objects clear of numbers the file already uses: pdf-lib doesn't
+// count object and cross-reference streams, which an update must not reuse.
+export function prepareIncrementalSave(pdfDoc: PDFDocument, baseBytes: Uint8Array) {
+    const { size } = readPreviousXref(baseBytes);
+    pdfDoc.context.largestObjectNumber = Math.max(pdfDoc.context.largestObjectNumber, size - 1);
+    if (!snapshots.has(pdfDoc)) {
+        snapshots.set(pdfDoc, takeSnapshot(pdfDoc));
+    }
+}
+
+interface XrefEntry {
+    objectNumber: number;
+    generation: number;
+    // Byte offset of an in-use object, or undefined for one that was deleted.
+    offset?: number;
+}
+
+// Consecutive object numbers share a subsection.
+function groupRuns(entries: XrefEntry[]): XrefEntry[][] {
+    const runs: XrefEntry[][] = [];
+    entries.forEach(entry => {
+        const run = runs[runs.length - 1];
+        if (run && run[run.length - 1].objectNumber + 1 === entry.objectNumber) run.push(entry);
+        else runs.push([entry]);
+    });
+    return runs;
+}
+
+function trailerEntries(pdfDoc: PDFDocument, size: number, previous: number): string {
+    const { Root, Info, ID } = pdfDoc.context.trailerInfo;
+    return [
+        `/Size ${size}`,
+        Root && `/Root ${Root}`,
+        Info && `/Info ${Info}`,
+        ID && `/ID ${ID}`,
+        `/Prev ${previous}`,
+    ].filter(Boolean).join(' ');
+}
+
+function xrefTable(pdfDoc: PDFDocument, entries: XrefEntry[], size: number, previous: number, offset: number): string {
+    const lines = ['xref'];
+    groupRuns(entries).forEach(run => {
+        lines.push(`${run[0].objectNumber} ${run.length}`);
+        run.forEach(({ offset, generation }) => {
+            // Fixed 20-byte entries; a deleted object's next use gets the next generation.
+            lines.push(offset === undefined
+                ? `0000000000 ${String(Math.min(generation + 1, 65535)).padStart(5, '0')} f\r`
+                : `${String(offset).padStart(10, '0')} ${String(generation).padStart(5, '0')} n\r`);
+        });
+    });
+    return `${lines.join('\n')}\ntrailer\n<< ${trailerEntries(pdfDoc, size, previous)} >>\nstartxref\n${offset}\n%%EOF\n`;
+}
+
+// A cross-reference stream, for files whose previous section is one: readers
+// that only know streams must not meet a table.
+function xrefStream(pdfDoc: PDFDocument, entries: XrefEntry[], previous: number, offset: number): Uint8Array {
+    const ref = pdfDoc.context.nextRef();
+    const all = [...entries, { objectNumber: ref.objectNumber, generation: 0, offset }];
+    const size = ref.objectNumber + 1;
+    // Columns: type (0 free, 1 in use), offset or next free object, generation.
+    const data = new Uint8Array(all.length * 7);
+    const view = new DataView(data.buffer);
+    all.forEach((entry, i) => {
+        data[i * 7] = entry.offset === undefined ? 0 : 1;
+        view.setUint32(i * 7 + 1, entry.offset ?? 0);
+        view.setUint16(i * 7 + 5, entry.offset === undefined ? Math.min(entry.generation + 1, 65535) : entry.generation);
+    });
+    const index = groupRuns(all).map(run => `${run[0].objectNumber} ${run.length}`).join(' ');
+    const dict = `<< /Type /XRef ${trailerEntries(pdfDoc, size, previous)} /W [1 4 2] /Index [${index}] /Length ${data.length} >>`;
+    return concatBytes([
+        latin1ToBytes(`${ref.objectNumber} 0 obj\n${dict}\nstream\n`),
+        data,
+        latin1ToBytes(`\nendstream\nendobj\nstartxref\n${offset}\n%%EOF\n`),
+    ]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        output.set(part, offset);
+        offset += part.length;
+    });
+    return output;
+}
+
+// Appends everything that changed since `prepareIncrementalSave` to
+// `baseBytes`, the file the document was loaded from. Deleted objects are
+// marked free, but their bytes stay in the earlier revision.
+export async function saveIncrementally(pdfDoc: PDFDocument, baseBytes: Uint8Array): Promise<Uint8Array> {
+    const snapshot = snapshots.get(pdfDoc);
+    if (!snapshot) throw new Error('prepareIncrementalSave must be called before editing.');
+    // Embedded fonts and images are only written into the document on flush.
+    await pdfDoc.flush();
+    const previous = readPreviousXref(baseBytes);
+
+    const parts: Uint8Array[] = [baseBytes];
+    let offset = baseBytes.length;
+    const push = (part: Uint8Array) => {
+        parts.push(part);
+        offset += part.length;
+    };
+    // Objects must start on a line of their own.
+    if (baseBytes[baseBytes.length - 1] !== 0x0a && baseBytes[baseBytes.length - 1] !== 0x0d) push(latin1ToBytes('\n'));
+
+    const entries: XrefEntry[] = [];
+    const current = new Set<string>();
+    const objects = pdfDoc.context.enumerateIndirectObjects().sort(([a], [b]) => a.objectNumber - b.objectNumber);
+    for (const [ref, object] of objects) {
+        const key = refKey(ref);
+        current.add(key);
+        const bytes = serialize(object);
+        const print = fingerprint(bytes);
+        if (snapshot.get(key) === print) continue;
+        snapshot.set(key, print);
+        entries.push({ objectNumber: ref.objectNumber, generation: ref.generationNumber, offset });
+        push(latin1ToBytes(`${ref.objectNumber} ${ref.generationNumber} obj\n`));
+        push(bytes);
+        push(latin1ToBytes('\nendobj\n'));
+    }
+    [...snapshot.keys()].filter(key => !current.has(key)).forEach(key => {
+        const [objectNumber, generation] = key.split(' ').map(Number);
+        entries.push({ objectNumber, generation });
+        snapshot.delete(key);
+    });
+    if (entries.length === 0) return baseBytes;
+    entries.sort((a, b) => a.objectNumber - b.objectNumber);
+
+    if (previous.isStream) {
+        push(xrefStream(pdfDoc, entries, previous.offset, offset));
+    } else {
+        const size = Math.max(previous.size, pdfDoc.context.largestObjectNumber + 1);
+        push(latin1ToBytes(xrefTable(pdfDoc, entries, size, previous.offset, offset)));
+    }
+    return concatBytes(parts);
+}
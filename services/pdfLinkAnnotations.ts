@@ -0,0 +1,54 @@
+import { PDFArray, PDFDict, PDFName, PDFNumber, PDFPage, PDFString } from 'pdf-lib';
+import { Rect } from './pdfContentStream';
+
+// A link counts as sitting over a code when their overlap covers at least this
+// share of the smaller of the two, which allows for a link drawn a little
+// larger or smaller than the code.
+const MIN_LINK_OVERLAP = 0.5;
+
+// Schemes a QR payload can be turned into a link for.
+const LINKABLE_PAYLOAD = /^(https?:\/\/|mailto:|tel:)/i;
+
+export function isLinkablePayload(text: string): boolean {
+    return LINKABLE_PAYLOAD.test(text.trim());
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+    const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (width <= 0 || height <= 0) return false;
+    return width * height >= MIN_LINK_OVERLAP * Math.min(a.width * a.height, b.width * b.height);
+}
+
+// PDF rectangles are two opposite corners in either order.
+export function normalizePdfRect([x1, y1, x2, y2]: number[]): Rect {
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
+
+// Points every link annotation over `bounds` (PDF user space) at `uri`, and
+// returns how many there were. Links that went elsewhere (a page in the
+// document, a script) get a URI action in place of their old target.
+export function updateLinkAnnotations(page: PDFPage, bounds: Rect, uri: string): number {
+    const annots = page.node.Annots();
+    if (!annots) return 0;
+    const context = page.doc.context;
+    let updated = 0;
+    for (let i = 0; i < annots.size(); i++) {
+        const annot = annots.lookupMaybe(i, PDFDict);
+        if (annot?.lookupMaybe(PDFName.of('Subtype'), PDFName) !== PDFName.of('Link')) continue;
+        const rect = annot.lookupMaybe(PDFName.of('Rect'), PDFArray);
+        if (!rect || rect.size() !== 4) continue;
+        const corners = rect.asArray().map(value => (context.lookup(value) as PDFNumber | undefined)?.asNumber?.() ?? 0);
+        if (!rectsOverlap(normalizePdfRect(corners), bounds)) continue;
+
+        const action = annot.lookupMaybe(PDFName.of('A'), PDFDict);
+        if (action?.lookupMaybe(PDFName.of('S'), PDFName) === PDFName.of('URI')) {
+            action.set(PDFName.of('URI'), PDFString.of(uri));
+        } else {
+            annot.set(PDFName.of('A'), context.obj({ S: 'URI', URI: PDFString.of(uri) }));
+            annot.delete(PDFName.of('Dest'));
+        }
+        updated++;
+    }
+    return updated;
+}
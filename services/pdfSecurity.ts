@@ -0,0 +1,19 @@
+import { bytesToLatin1 } from './pdfContentStream';
+
+export interface PdfSecurity {
+    // Holds at least one digital signature, which a full rewrite would break.
+    signed: boolean;
+    // Encrypted or password protected; pdf-lib can't edit it.
+    encrypted: boolean;
+}
+
+// A plain byte scan rather than a parse: signature dictionaries may not live in
+// compressed object streams (their byte ranges must be locatable), and /Encrypt
+// sits in an uncompressed trailer or cross-reference stream dictionary.
+export async function inspectPdfSecurity(file: Blob): Promise<PdfSecurity> {
+    const text = bytesToLatin1(new Uint8Array(await file.arrayBuffer()));
+    return {
+        signed: /\/ByteRange\s*\[/.test(text),
+        encrypted: /\/Encrypt\s*(<<|\d+\s+\d+\s+R)/.test(text),
+    };
+}
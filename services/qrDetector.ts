@@ -0,0 +1,270 @@
+import jsQR, { QRCode } from 'jsqr';
+import { DetectionStrategy, QrDetectionInfo } from '../types';
+import { getModuleCount, getQrCorners, getPolygonCenter, isPointInPolygon, Point } from '../utils/helpers';
+import { adaptiveThreshold, invertColors, stretchContrast } from './imagePreprocessing';
+import { createCanvas, getContext2d, ScanCanvas, ScanContext } from './canvasFactory';
+
+// Safety net so a pathological page can't keep the detector looping forever.
+const MAX_CODES_PER_PAGE = 32;
+// Grow each mask a little past the detected corners so the quiet zone and
+// finder patterns of an already-found code can't be picked up again.
+const MASK_PADDING = 0.15;
+// Overlapping tile grids scanned after the full-page pass. jsQR only reports one
+// code per call and can lose track of codes when several finder patterns compete.
+const TILE_GRIDS = [2, 3];
+// Upscaled passes are skipped on pages that would grow past this many pixels.
+const MAX_UPSCALED_PIXELS = 16_000_000;
+// How far past a hand-marked outline to look, as a fraction of its size, so a
+// loosely drawn region still takes in the finder patterns and quiet zone.
+const MARKED_REGION_PADDING = 0.25;
+
+interface DetectionPass {
+    strategy: DetectionStrategy;
+    // Render or resample factor relative to the page canvas.
+    scale: number;
+    preprocess?: (imageData: ImageData) => void;
+}
+
+// Run in order; when passes disagree the earliest one's location is kept.
+const DETECTION_PASSES: DetectionPass[] = [
+    { strategy: 'direct', scale: 1 },
+    { strategy: 'contrast', scale: 1, preprocess: stretchContrast },
+    { strategy: 'adaptiveThreshold', scale: 1, preprocess: adaptiveThreshold },
+    { strategy: 'inverted', scale: 1, preprocess: invertColors },
+    { strategy: 'upscaled', scale: 2 },
+    { strategy: 'downscaled', scale: 0.5 },
+];
+
+type Location = QRCode['location'];
+
+function offsetLocation(location: Location, dx: number, dy: number): Location {
+    const shifted = {} as Location;
+    for (const key of Object.keys(location) as (keyof Location)[]) {
+        const point = location[key];
+        if (point) {
+            shifted[key] = { x: point.x + dx, y: point.y + dy };
+        }
+    }
+    return shifted;
+}
+
+function resizeLocation(location: Location, factor: number): Location {
+    const resized = {} as Location;
+    for (const key of Object.keys(location) as (keyof Location)[]) {
+        const point = location[key];
+        if (point) {
+            resized[key] = { x: point.x * factor, y: point.y * factor };
+        }
+    }
+    return resized;
+}
+
+function isSameCode(a: QRCode, b: QRCode): boolean {
+    const aCorners = getQrCorners(a.location);
+    const bCorners = getQrCorners(b.location);
+    return isPointInPolygon(getPolygonCenter(aCorners), bCorners) || isPointInPolygon(getPolygonCenter(bCorners), aCorners);
+}
+
+function maskCode(ctx: ScanContext, location: Location) {
+    const corners = getQrCorners(location);
+    const center = getPolygonCenter(corners);
+    ctx.beginPath();
+    corners.forEach((corner, i) => {
+        const x = center.x + (corner.x - center.x) * (1 + MASK_PADDING * 2);
+        const y = center.y + (corner.y - center.y) * (1 + MASK_PADDING * 2);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+    ctx.fillStyle = 'white';
+    ctx.fill();
+}
+
+// Repeatedly scans a region, masking out every code found so the next pass can
+// see the ones underneath, until jsQR comes back empty.
+function scanRegion(
+    ctx: ScanContext,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    found: QRCode[]
+) {
+    while (found.length < MAX_CODES_PER_PAGE) {
+        const imageData = ctx.getImageData(x, y, width, height);
+        // Light-on-dark codes are left to the 'inverted' pass rather than jsQR's own
+        // second attempt, which would double the work of every other pass.
+        const code = jsQR(imageData.data, imageData.width, imageData.height, { inversionAttempts: 'dontInvert' });
+        if (!code) return;
+
+        const placed = { ...code, location: offsetLocation(code.location, x, y) };
+        maskCode(ctx, placed.location);
+        if (!found.some(existing => isSameCode(existing, placed))) {
+            found.push(placed);
+        }
+    }
+}
+
+export function detectAllQrCodes(source: ScanCanvas): QRCode[] {
+    // Work on a scratch copy; masking must never touch the caller's canvas.
+    const scratch = createCanvas(source.width, source.height);
+    const ctx = getContext2d(scratch, { willReadFrequently: true });
+    ctx.drawImage(source, 0, 0);
+
+    const found: QRCode[] = [];
+    scanRegion(ctx, 0, 0, scratch.width, scratch.height, found);
+
+    for (const grid of TILE_GRIDS) {
+        // Tiles are twice the step size, so neighbours overlap by half and a code
+        // straddling a tile edge is fully inside at least one tile.
+        const stepX = scratch.width / (grid + 1);
+        const stepY = scratch.height / (grid + 1);
+        for (let row = 0; row < grid; row++) {
+            for (let col = 0; col < grid; col++) {
+                const x = Math.floor(col * stepX);
+                const y = Math.floor(row * stepY);
+                const width = Math.min(Math.ceil(stepX * 2), scratch.width - x);
+                const height = Math.min(Math.ceil(stepY * 2), scratch.height - y);
+                scanRegion(ctx, x, y, width, height, found);
+            }
+        }
+    }
+
+    return sortByReadingOrder(found);
+}
+
+// Reading order (top-to-bottom, then left-to-right) keeps QR numbering stable
+// regardless of which pass happened to find each code.
+function sortByReadingOrder<T extends QRCode>(codes: T[]): T[] {
+    return codes.sort((a, b) => {
+        const aCenter = getPolygonCenter(getQrCorners(a.location));
+        const bCenter = getPolygonCenter(getQrCorners(b.location));
+        return Math.abs(aCenter.y - bCenter.y) > 1 ? aCenter.y - bCenter.y : aCenter.x - bCenter.x;
+    });
+}
+
+async function preparePassCanvas(
+    source: ScanCanvas,
+    pass: DetectionPass,
+    renderAtScale?: (scale: number) => Promise<ScanCanvas>
+): Promise<ScanCanvas | null> {
+    let canvas = source;
+    if (pass.scale !== 1) {
+        if (pass.scale > 1 && source.width * source.height * pass.scale ** 2 > MAX_UPSCALED_PIXELS) return null;
+        if (renderAtScale) {
+            canvas = await renderAtScale(pass.scale);
+        } else {
+            canvas = createCanvas(Math.round(source.width * pass.scale), Math.round(source.height * pass.scale));
+            const ctx = getContext2d(canvas);
+            // Nearest-neighbour upscaling keeps module edges crisp.
+            ctx.imageSmoothingEnabled = pass.scale < 1;
+            ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+        }
+    }
+
+    if (pass.preprocess) {
+        const processed = createCanvas(canvas.width, canvas.height);
+        const ctx = getContext2d(processed, { willReadFrequently: true });
+        ctx.drawImage(canvas, 0, 0);
+        const imageData = ctx.getImageData(0, 0, processed.width, processed.height);
+        pass.preprocess(imageData);
+        ctx.putImageData(imageData, 0, 0);
+        canvas = processed;
+    }
+    return canvas;
+}
+
+// Runs every detection pass and merges the results by location. Each code
+// reports the first pass that found its winning payload and how many passes
+// agreed on it. `renderAtScale` lets PDFs re-render rather than resample the page.
+export async function detectQrCodesRobust(
+    source: ScanCanvas,
+    renderAtScale?: (scale: number) => Promise<ScanCanvas>
+): Promise<(QRCode & { detection: QrDetectionInfo })[]> {
+    type Vote = { code: QRCode, strategy: DetectionStrategy, count: number };
+    const groups: { location: QRCode, votes: Vote[] }[] = [];
+    let passesRun = 0;
+
+    for (const pass of DETECTION_PASSES) {
+        const canvas = await preparePassCanvas(source, pass, renderAtScale);
+        if (!canvas) continue;
+        passesRun++;
+
+        for (const found of detectAllQrCodes(canvas)) {
+            const code = pass.scale === 1 ? found : { ...found, location: resizeLocation(found.location, 1 / pass.scale) };
+            let group = groups.find(existing => isSameCode(existing.location, code));
+            if (!group) {
+                group = { location: code, votes: [] };
+                groups.push(group);
+            }
+            const vote = group.votes.find(existing => existing.code.data === code.data);
+            if (vote) vote.count++;
+            else group.votes.push({ code, strategy: pass.strategy, count: 1 });
+        }
+    }
+
+    return sortByReadingOrder(groups.map(({ votes }) => {
+        const best = votes.reduce((a, b) => (b.count > a.count ? b : a));
+        return { ...best.code, detection: { strategy: best.strategy, confidence: best.count / passesRun } };
+    }));
+}
+
+function lerp(a: Point, b: Point, t: number): Point {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+// Builds a placeholder for a code whose payload isn't known, either one that
+// can't be read or one that is about to be inserted. `corners` are in
+// getQrCorners order; finder patterns are estimated from them.
+export function createPlaceholderQrCode([topLeft, topRight, bottomRight, bottomLeft]: Point[]): QRCode {
+    // Finder pattern centres sit 3.5 modules in, at the version assumed for unknown codes.
+    const inset = 3.5 / getModuleCount({ version: 0 });
+    return {
+        binaryData: [],
+        data: '',
+        chunks: [],
+        // Unknown; see getQrVersion.
+        version: 0,
+        location: {
+            topLeftCorner: topLeft,
+            topRightCorner: topRight,
+            bottomRightCorner: bottomRight,
+            bottomLeftCorner: bottomLeft,
+            topLeftFinderPattern: lerp(topLeft, bottomRight, inset),
+            topRightFinderPattern: lerp(topRight, bottomLeft, inset),
+            bottomLeftFinderPattern: lerp(bottomLeft, topRight, inset),
+        },
+    };
+}
+
+// Decodes a region the user outlined by hand, running every detection pass on
+// just that part of the page. A code is taken when its centre falls inside the
+// outline; otherwise the outline itself comes back as a 'manual' code with an
+// empty payload, which can still be replaced.
+export async function decodeMarkedRegion(
+    source: ScanCanvas,
+    corners: Point[]
+): Promise<QRCode & { detection: QrDetectionInfo }> {
+    const minX = Math.min(...corners.map(p => p.x));
+    const minY = Math.min(...corners.map(p => p.y));
+    const maxX = Math.max(...corners.map(p => p.x));
+    const maxY = Math.max(...corners.map(p => p.y));
+    const padX = (maxX - minX) * MARKED_REGION_PADDING;
+    const padY = (maxY - minY) * MARKED_REGION_PADDING;
+
+    const x = Math.max(0, Math.floor(minX - padX));
+    const y = Math.max(0, Math.floor(minY - padY));
+    const width = Math.min(source.width, Math.ceil(maxX + padX)) - x;
+    const height = Math.min(source.height, Math.ceil(maxY + padY)) - y;
+
+    if (width > 0 && height > 0) {
+        const region = createCanvas(width, height);
+        getContext2d(region).drawImage(source, x, y, width, height, 0, 0, width, height);
+        const match = (await detectQrCodesRobust(region))
+            .map(code => ({ ...code, location: offsetLocation(code.location, x, y) }))
+            .find(code => isPointInPolygon(getPolygonCenter(getQrCorners(code.location)), corners));
+        if (match) return match;
+    }
+
+    return { ...createPlaceholderQrCode(corners), detection: { strategy: 'manual', confidence: 0 } };
+}
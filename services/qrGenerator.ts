@@ -0,0 +1,68 @@
+import qrcode from 'qrcode';
+import { QrGenerationOptions } from '../types';
+
+export const DEFAULT_GENERATION_OPTIONS: QrGenerationOptions = {
+    errorCorrectionLevel: 'H',
+    margin: 1,
+    darkColor: '#000000',
+    lightColor: '#ffffff',
+    versionMode: 'auto',
+    version: 1,
+};
+
+// Translates our options into the `qrcode` module's. A minimum version is
+// honoured only while the payload still fits; otherwise the encoder picks.
+function toQrcodeOptions(text: string, options: QrGenerationOptions) {
+    const base = {
+        errorCorrectionLevel: options.errorCorrectionLevel,
+        maskPattern: options.maskPattern,
+    };
+    if (options.versionMode === 'auto') return base;
+
+    const withVersion = { ...base, version: options.version };
+    if (options.versionMode === 'fixed') return withVersion;
+    try {
+        qrcode.create(text, withVersion);
+        return withVersion;
+    } catch (e) {
+        return base;
+    }
+}
+
+export async function createQrDataUrl(text: string, options: QrGenerationOptions = DEFAULT_GENERATION_OPTIONS): Promise<string> {
+    return qrcode.toDataURL(text, {
+        ...toQrcodeOptions(text, options),
+        margin: options.margin,
+        color: { dark: options.darkColor, light: options.lightColor },
+    });
+}
+
+// The QR matrix as one SVG path in module units (y down, origin at the top-left
+// of the quiet zone). Runs of dark modules on a row are merged into a single
+// rectangle to keep the path short.
+export function createQrSvgPath(text: string, options: QrGenerationOptions = DEFAULT_GENERATION_OPTIONS): { path: string, size: number } {
+    const { modules } = qrcode.create(text, toQrcodeOptions(text, options));
+    const count: number = modules.size;
+    const margin = options.margin;
+    const segments: string[] = [];
+
+    for (let row = 0; row < count; row++) {
+        let col = 0;
+        while (col < count) {
+            if (!modules.get(row, col)) {
+                col++;
+                continue;
+            }
+            const start = col;
+            while (col < count && modules.get(row, col)) col++;
+            segments.push(`M${start + margin} ${row + margin}h${col - start}v1h${start - col}z`);
+        }
+    }
+
+    return { path: segments.join(''), size: count + margin * 2 };
+}
+
+// Symbol size in modules, excluding the quiet zone.
+export function getQrModuleCount(text: string, options: QrGenerationOptions = DEFAULT_GENERATION_OPTIONS): number {
+    return qrcode.create(text, toQrcodeOptions(text, options)).modules.size;
+}
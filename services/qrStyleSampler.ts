@@ -0,0 +1,87 @@
+import { DetectedQrCode } from '../types';
+import { getModuleCount, rgbToHex } from '../utils/helpers';
+import { computeHomography, applyHomography } from './imagePerspective';
+import { getContext2d, ScanCanvas } from './canvasFactory';
+
+export interface SampledQrStyle {
+    darkColor: string;
+    lightColor: string;
+    // Quiet zone in modules, capped at the 4 modules the QR spec asks for.
+    margin: number;
+    // Module size in canvas pixels.
+    moduleSize: number;
+}
+
+type Color = [number, number, number];
+
+const MAX_QUIET_ZONE = 4;
+// Fraction of a ring that must match the light colour to count as quiet zone.
+const QUIET_ZONE_COVERAGE = 0.9;
+
+const luminance = ([r, g, b]: Color) => r * 0.299 + g * 0.587 + b * 0.114;
+
+function median(colors: Color[]): Color {
+    return [0, 1, 2].map(c => {
+        const values = colors.map(color => color[c]).sort((a, b) => a - b);
+        return values[Math.floor(values.length / 2)] ?? 0;
+    }) as Color;
+}
+
+// Reads the colours, quiet zone and module size of a detected code by sampling
+// the centre of every module through the code's (possibly skewed) corner quad.
+export function sampleQrStyle(canvas: ScanCanvas, qr: DetectedQrCode): SampledQrStyle {
+    const ctx = getContext2d(canvas, { willReadFrequently: true });
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    const count = getModuleCount(qr);
+    const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = qr.location;
+    const toCanvas = computeHomography(
+        [{ x: 0, y: 0 }, { x: count, y: 0 }, { x: count, y: count }, { x: 0, y: count }],
+        [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner]
+    );
+
+    const sampleModule = (col: number, row: number): Color | null => {
+        const { x, y } = applyHomography(toCanvas, col + 0.5, row + 0.5);
+        const px = Math.round(x);
+        const py = Math.round(y);
+        if (px < 0 || py < 0 || px >= width || py >= height) return null;
+        const idx = (py * width + px) * 4;
+        return [data[idx], data[idx + 1], data[idx + 2]];
+    };
+
+    const samples: Color[] = [];
+    for (let row = 0; row < count; row++) {
+        for (let col = 0; col < count; col++) {
+            const color = sampleModule(col, row);
+            if (color) samples.push(color);
+        }
+    }
+
+    const lums = samples.map(luminance);
+    const threshold = (Math.min(...lums) + Math.max(...lums)) / 2;
+    const dark = median(samples.filter((_, i) => lums[i] < threshold));
+    const light = median(samples.filter((_, i) => lums[i] >= threshold));
+    const tolerance = Math.abs(luminance(light) - luminance(dark)) * 0.25;
+
+    // Walk outward one module at a time while the surrounding ring stays light.
+    let margin = 0;
+    for (let k = 1; k <= MAX_QUIET_ZONE; k++) {
+        const ring: (Color | null)[] = [];
+        for (let i = -k; i < count + k; i++) {
+            ring.push(sampleModule(i, -k), sampleModule(i, count + k - 1), sampleModule(-k, i), sampleModule(count + k - 1, i));
+        }
+        const matching = ring.filter(color => color && Math.abs(luminance(color) - luminance(light)) <= tolerance).length;
+        if (matching / ring.length < QUIET_ZONE_COVERAGE) break;
+        margin = k;
+    }
+
+    const side = (Math.hypot(topRightCorner.x - topLeftCorner.x, topRightCorner.y - topLeftCorner.y)
+        + Math.hypot(bottomLeftCorner.x - topLeftCorner.x, bottomLeftCorner.y - topLeftCorner.y)) / 2;
+
+    return {
+        darkColor: rgbToHex(dark),
+        lightColor: rgbToHex(light),
+        margin,
+        moduleSize: side / count,
+    };
+}
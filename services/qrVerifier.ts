@@ -0,0 +1,45 @@
+import { QRCode } from 'jsqr';
+import { QrEdit } from '../types';
+import { getPolygonCenter, getQrCorners, isPointInPolygon } from '../utils/helpers';
+import { detectAllQrCodes } from './qrDetector';
+import { invertColors } from './imagePreprocessing';
+import { createCanvas, getContext2d, ScanCanvas } from './canvasFactory';
+
+// How far past the original code's bounding box to look, as a fraction of its
+// size. Covers a larger quiet zone when the replacement matches the original style.
+const REGION_PADDING = 0.5;
+
+// Checks that a code centred inside the replaced region of the re-rendered page
+// decodes to exactly the requested payload. Light-on-dark replacements are only
+// readable once the region is inverted, so a second scan looks at that.
+export function verifyEdit(page: ScanCanvas, edit: QrEdit): boolean {
+    const corners = getQrCorners(edit.qrCode.location);
+    const minX = Math.min(...corners.map(p => p.x));
+    const minY = Math.min(...corners.map(p => p.y));
+    const maxX = Math.max(...corners.map(p => p.x));
+    const maxY = Math.max(...corners.map(p => p.y));
+    const padX = (maxX - minX) * REGION_PADDING;
+    const padY = (maxY - minY) * REGION_PADDING;
+
+    const x = Math.max(0, Math.floor(minX - padX));
+    const y = Math.max(0, Math.floor(minY - padY));
+    const width = Math.min(page.width, Math.ceil(maxX + padX)) - x;
+    const height = Math.min(page.height, Math.ceil(maxY + padY)) - y;
+    if (width <= 0 || height <= 0) return false;
+
+    const region = createCanvas(width, height);
+    const ctx = getContext2d(region, { willReadFrequently: true });
+    ctx.drawImage(page, x, y, width, height, 0, 0, width, height);
+
+    // A neighbouring code with the same payload must not pass for this one.
+    const isReplacement = (code: QRCode) => {
+        const center = getPolygonCenter(getQrCorners(code.location));
+        return code.data === edit.newText && isPointInPolygon({ x: center.x + x, y: center.y + y }, corners);
+    };
+    if (detectAllQrCodes(region).some(isReplacement)) return true;
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    invertColors(imageData);
+    ctx.putImageData(imageData, 0, 0);
+    return detectAllQrCodes(region).some(isReplacement);
+}
@@ -0,0 +1,96 @@
+import {
+    loadPdfDocument,
+    processFileForQrCodes,
+    processPdfPageForQrCodes,
+    scanDocumentForQrCodes,
+    scanPdfDocumentForQrCodes,
+    ScanProgress,
+} from './fileProcessor';
+
+// Same build as the script tags in index.html; keep the versions in sync.
+const PDFJS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
+const PDFJS_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+// Parsed PDFs kept open. Two covers the current version of a document plus the
+// one a just-finished edit replaced, which an in-flight request may still be using.
+const MAX_OPEN_DOCUMENTS = 2;
+
+// `documentKey` identifies the file's contents (see DocumentSession.key). With
+// one, the parsed PDF is kept for later requests; without, it is parsed per request.
+export type ScanWorkerRequest =
+    | { type: 'scanPage', file: File, documentKey?: string, pageNum: number }
+    | { type: 'scanDocument', file: File, documentKey?: string };
+
+export type ScanWorkerResponse =
+    | { type: 'rendered', dataUrl: string, pageCount?: number }
+    | { type: 'progress', progress: ScanProgress }
+    | { type: 'done', result: unknown }
+    | { type: 'error', message: string };
+
+export interface ScanWorkerEnvelope<T> {
+    id: number;
+    message: T;
+}
+
+const openDocuments: { key: string, pdfDoc: Promise<any> }[] = [];
+
+// The UMD build registers itself as `globalThis.pdfjsLib`, just like on the page.
+async function loadPdfjs() {
+    if ((globalThis as any).pdfjsLib) return;
+    await import(/* @vite-ignore */ PDFJS_URL);
+    (globalThis as any).pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+}
+
+async function withPdfDocument<T>(file: File, documentKey: string | undefined, use: (pdfDoc: any) => Promise<T>): Promise<T> {
+    await loadPdfjs();
+    if (!documentKey) {
+        const pdfDoc = await loadPdfDocument(await file.arrayBuffer());
+        try {
+            return await use(pdfDoc);
+        } finally {
+            pdfDoc.destroy();
+        }
+    }
+
+    let entry = openDocuments.find(doc => doc.key === documentKey);
+    if (!entry) {
+        const pdfDoc = file.arrayBuffer().then(loadPdfDocument);
+        const added = { key: documentKey, pdfDoc };
+        openDocuments.push(added);
+        pdfDoc.catch(() => openDocuments.splice(openDocuments.indexOf(added), 1));
+        if (openDocuments.length > MAX_OPEN_DOCUMENTS) {
+            openDocuments.shift()!.pdfDoc.then(doc => doc.destroy(), () => {});
+        }
+        entry = added;
+    }
+    return use(await entry.pdfDoc);
+}
+
+function handleRequest(request: ScanWorkerRequest, post: (response: ScanWorkerResponse) => void): Promise<unknown> {
+    const isPdf = request.file.type === 'application/pdf';
+    switch (request.type) {
+        case 'scanPage': {
+            const onRendered = (dataUrl: string, pageCount?: number) => post({ type: 'rendered', dataUrl, pageCount });
+            return isPdf
+                ? withPdfDocument(request.file, request.documentKey, pdfDoc => processPdfPageForQrCodes(pdfDoc, request.pageNum, onRendered))
+                : processFileForQrCodes(request.file, request.pageNum, onRendered);
+        }
+        case 'scanDocument': {
+            const onProgress = (progress: ScanProgress) => post({ type: 'progress', progress });
+            return isPdf
+                ? withPdfDocument(request.file, request.documentKey, pdfDoc => scanPdfDocumentForQrCodes(pdfDoc, onProgress))
+                : scanDocumentForQrCodes(request.file, onProgress);
+        }
+    }
+}
+
+// Requests run concurrently and are matched to replies by envelope id. The
+// client cancels by terminating the whole worker.
+self.onmessage = async (event: MessageEvent<ScanWorkerEnvelope<ScanWorkerRequest>>) => {
+    const { id, message } = event.data;
+    const post = (response: ScanWorkerResponse) => self.postMessage({ id, message: response });
+    try {
+        post({ type: 'done', result: await handleRequest(message, post) });
+    } catch (error) {
+        post({ type: 'error', message: (error as Error).message });
+    }
+};
@@ -0,0 +1,154 @@
+import { Point } from '../utils/helpers';
+import { createCanvas, getContext2d, ScanCanvas } from './canvasFactory';
+
+// SVGs are rasterised at this multiple of their own size for detection, like
+// PDF pages at RENDER_SCALE, so small codes keep enough pixels per module.
+export const SVG_RENDER_SCALE = 2;
+// What browsers use for an <svg> with no usable size.
+const DEFAULT_WIDTH = 300;
+const DEFAULT_HEIGHT = 150;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+interface SvgGeometry {
+    // Size in CSS pixels.
+    width: number;
+    height: number;
+    // Maps rendered CSS pixels into the root element's user space.
+    toUserSpace: (point: Point) => Point;
+}
+
+function parseSvg(text: string): SVGSVGElement {
+    const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (root.nodeName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Could not parse the SVG file');
+    }
+    return root as unknown as SVGSVGElement;
+}
+
+// Only absolute lengths count; percentages depend on an embedding page we don't have.
+function parseLength(value: string | null): number | null {
+    const match = value?.trim().match(/^([\d.]+)(px|pt|mm|cm|in)?$/);
+    if (!match) return null;
+    const units: Record<string, number> = { px: 1, pt: 4 / 3, mm: 96 / 25.4, cm: 96 / 2.54, in: 96 };
+    return parseFloat(match[1]) * units[match[2] ?? 'px'];
+}
+
+function getGeometry(root: SVGSVGElement): SvgGeometry {
+    const viewBox = root.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+    const hasViewBox = viewBox?.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0;
+    let width = parseLength(root.getAttribute('width'));
+    let height = parseLength(root.getAttribute('height'));
+    if (hasViewBox) {
+        const [, , boxWidth, boxHeight] = viewBox!;
+        // One missing dimension follows the viewBox's aspect ratio.
+        if (width === null && height === null) [width, height] = [boxWidth, boxHeight];
+        else if (width === null) width = height! * boxWidth / boxHeight;
+        else if (height === null) height = width * boxHeight / boxWidth;
+    }
+    width ??= DEFAULT_WIDTH;
+    height ??= DEFAULT_HEIGHT;
+
+    if (!hasViewBox) {
+        return { width, height, toUserSpace: point => point };
+    }
+
+    // preserveAspectRatio: "none", or an alignment such as the default xMidYMid with meet or slice.
+    const [minX, minY, boxWidth, boxHeight] = viewBox!;
+    const [align = 'xMidYMid', meetOrSlice = 'meet'] = (root.getAttribute('preserveAspectRatio') ?? '').trim().split(/\s+/).filter(Boolean);
+    let scaleX = width / boxWidth;
+    let scaleY = height / boxHeight;
+    let offsetX = 0;
+    let offsetY = 0;
+    if (align !== 'none') {
+        scaleX = scaleY = meetOrSlice === 'slice' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+        const alignment = (axis: string) => axis === 'Min' ? 0 : axis === 'Max' ? 1 : 0.5;
+        offsetX = (width - boxWidth * scaleX) * alignment(align.slice(1, 4));
+        offsetY = (height - boxHeight * scaleY) * alignment(align.slice(5, 8));
+    }
+    return {
+        width,
+        height,
+        toUserSpace: ({ x, y }) => ({ x: minX + (x - offsetX) / scaleX, y: minY + (y - offsetY) / scaleY }),
+    };
+}
+
+// Draws the SVG on white at `scale` times its own size. SVG images can only be
+// decoded through an <img>, so this needs the main thread.
+export async function rasterizeSvg(file: Blob, scale = SVG_RENDER_SCALE): Promise<ScanCanvas> {
+    const root = parseSvg(await file.text());
+    const { width, height } = getGeometry(root);
+    const canvasWidth = Math.max(1, Math.round(width * scale));
+    const canvasHeight = Math.max(1, Math.round(height * scale));
+    // An explicit size makes the browser rasterise the vectors at full resolution.
+    root.setAttribute('width', String(canvasWidth));
+    root.setAttribute('height', String(canvasHeight));
+    const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(root)], { type: 'image/svg+xml' }));
+
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+        const canvas = createCanvas(canvasWidth, canvasHeight);
+        const ctx = getContext2d(canvas);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+        ctx.drawImage(img, 0, 0, canvasWidth, canvasHeight);
+        return canvas;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+export interface SvgQrDrawing {
+    // Where the old code was, in pixels of the SVG_RENDER_SCALE raster.
+    coverCorners: Point[];
+    coverColor: string;
+    // Where the new code goes (top-left, top-right, bottom-right, bottom-left), quiet zone included.
+    drawCorners: Point[];
+    // The QR matrix from createQrSvgPath, `size` modules square.
+    path: string;
+    size: number;
+    darkColor: string;
+    lightColor: string;
+}
+
+// Covers the old code and appends the new one as vector shapes on top of the
+// drawing. The new code is mapped onto its corners with an affine transform,
+// which is exact for anything but a perspective-distorted code.
+export async function drawQrIntoSvg(file: Blob, drawing: SvgQrDrawing): Promise<Blob> {
+    const root = parseSvg(await file.text());
+    const { toUserSpace } = getGeometry(root);
+    const toUser = (point: Point) => toUserSpace({ x: point.x / SVG_RENDER_SCALE, y: point.y / SVG_RENDER_SCALE });
+    const doc = root.ownerDocument;
+
+    const cover = doc.createElementNS(SVG_NS, 'polygon');
+    cover.setAttribute('points', drawing.coverCorners.map(toUser).map(p => `${p.x},${p.y}`).join(' '));
+    cover.setAttribute('fill', drawing.coverColor);
+    root.appendChild(cover);
+
+    const [topLeft, topRight, , bottomLeft] = drawing.drawCorners.map(toUser);
+    const { size } = drawing;
+    const group = doc.createElementNS(SVG_NS, 'g');
+    group.setAttribute('transform', `matrix(${[
+        (topRight.x - topLeft.x) / size,
+        (topRight.y - topLeft.y) / size,
+        (bottomLeft.x - topLeft.x) / size,
+        (bottomLeft.y - topLeft.y) / size,
+        topLeft.x,
+        topLeft.y,
+    ].join(' ')})`);
+    const background = doc.createElementNS(SVG_NS, 'rect');
+    background.setAttribute('width', String(size));
+    background.setAttribute('height', String(size));
+    background.setAttribute('fill', drawing.lightColor);
+    const modules = doc.createElementNS(SVG_NS, 'path');
+    modules.setAttribute('d', drawing.path);
+    modules.setAttribute('fill', drawing.darkColor);
+    // Without this, anti-aliased seams show between the merged module rows.
+    modules.setAttribute('shape-rendering', 'crispEdges');
+    group.append(background, modules);
+    root.appendChild(group);
+
+    return new Blob([new XMLSerializer().serializeToString(doc)], { type: 'image/svg+xml' });
+}
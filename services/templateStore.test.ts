@@ -0,0 +1,21 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { EditTemplate } from '../utils/editTemplates';
+import { deleteTemplate, listTemplates, saveTemplate } from './templateStore';
+
+const makeTemplate = (id: string, name: string): EditTemplate =>
+    ({ id, name, rules: [{ mode: 'equals', pattern: 'a', replacement: 'b' }], autoApply: false, updatedAt: '2026-01-01T00:00:00.000Z' });
+
+describe('templateStore', () => {
+    it('saves, lists by name, updates and deletes templates', async () => {
+        await saveTemplate(makeTemplate('1', 'Zeta'));
+        await saveTemplate(makeTemplate('2', 'Alpha'));
+        expect((await listTemplates()).map(template => template.name)).toEqual(['Alpha', 'Zeta']);
+
+        await saveTemplate({ ...makeTemplate('1', 'Beta'), autoApply: true });
+        expect(await listTemplates()).toEqual([makeTemplate('2', 'Alpha'), { ...makeTemplate('1', 'Beta'), autoApply: true }]);
+
+        await deleteTemplate('2');
+        expect((await listTemplates()).map(template => template.id)).toEqual(['1']);
+    });
+});
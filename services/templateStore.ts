@@ -0,0 +1,44 @@
+import { EditTemplate } from '../utils/editTemplates';
+
+// Edit templates live in IndexedDB, so they survive reloads and stay on this device.
+
+const DB_NAME = 'qr-code-editor';
+const DB_VERSION = 1;
+const STORE = 'templates';
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    db ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    // A failed open (e.g. storage disabled) is retried next time.
+    db.catch(() => { db = null; });
+    return db;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const transaction = (await openDb()).transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export async function listTemplates(): Promise<EditTemplate[]> {
+    const templates = await run<EditTemplate[]>('readonly', store => store.getAll());
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(template: EditTemplate): Promise<void> {
+    await run('readwrite', store => store.put(template));
+}
+
+export async function deleteTemplate(id: string): Promise<void> {
+    await run('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { countTiffPages, decodeTiffPage, encodeTiff, replaceTiffPage, TiffPage } from './tiffCodec';
+
+function makePage(width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): TiffPage {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set([...pixel(x, y), 255], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data };
+}
+
+const grey = (value: number): [number, number, number] => [value, value, value];
+
+// A big-endian file whose pages are all the same 8x3 Group 4 strip: a white row,
+// then two rows starting with four black pixels.
+function bigEndianFaxTiff(pageCount: number): Uint8Array {
+    const strip = [0x93, 0x57, 0xe0];
+    const entries: [number, number, number][] = [
+        // tag, type (3 SHORT, 4 LONG), value
+        [256, 3, 8], [257, 3, 3], [258, 3, 1], [259, 3, 4], [262, 3, 0],
+        [273, 4, 0], [277, 3, 1], [278, 3, 3], [279, 4, strip.length],
+    ];
+    const ifdLength = 2 + entries.length * 12 + 4;
+    const dataOffset = 8 + pageCount * ifdLength;
+    const bytes = new Uint8Array(dataOffset + strip.length);
+    const view = new DataView(bytes.buffer);
+    bytes.set([0x4d, 0x4d, 0x00, 0x2a]);
+    view.setUint32(4, 8);
+    for (let page = 0; page < pageCount; page++) {
+        const offset = 8 + page * ifdLength;
+        view.setUint16(offset, entries.length);
+        entries.forEach(([tag, type, value], i) => {
+            const entry = offset + 2 + i * 12;
+            view.setUint16(entry, tag);
+            view.setUint16(entry + 2, type);
+            view.setUint32(entry + 4, 1);
+            if (type === 3) view.setUint16(entry + 8, value);
+            else view.setUint32(entry + 8, tag === 273 ? dataOffset : value);
+        });
+        view.setUint32(offset + 2 + entries.length * 12, page + 1 < pageCount ? offset + ifdLength : 0);
+    }
+    bytes.set(strip, dataOffset);
+    return bytes;
+}
+
+const FAX_ROWS = [grey(255), grey(0), grey(0)];
+const faxPixel = (x: number, y: number) => (y > 0 && x < 4 ? FAX_ROWS[y] : grey(255));
+
+describe('tiffCodec', () => {
+    it('round-trips colour pages with their resolution', async () => {
+        const page = { ...makePage(5, 4, (x, y) => [x * 50, y * 60, 255 - x * y]), xResolution: [300, 1], yResolution: [300, 1], resolutionUnit: 2 } as TiffPage;
+        const decoded = await decodeTiffPage(await encodeTiff([page]), 0);
+        expect(decoded.data).toEqual(page.data);
+        expect(decoded.greyscale).toBeUndefined();
+        expect(decoded.xResolution).toEqual([300, 1]);
+        expect(decoded.resolutionUnit).toBe(2);
+    });
+
+    it('keeps the bit depth of greyscale pages', async () => {
+        const bilevel = { ...makePage(11, 3, (x, y) => grey((x + y) % 3 ? 255 : 0)), greyscale: { bitsPerSample: 1, whiteIsZero: true } } as TiffPage;
+        const fourBit = { ...makePage(16, 2, x => grey(x * 17)), greyscale: { bitsPerSample: 4, whiteIsZero: false } } as TiffPage;
+        const bytes = await encodeTiff([bilevel, fourBit]);
+        expect(countTiffPages(bytes)).toBe(2);
+        for (const [i, page] of [bilevel, fourBit].entries()) {
+            const decoded = await decodeTiffPage(bytes, i);
+            expect(decoded.data).toEqual(page.data);
+            expect(decoded.greyscale).toEqual(page.greyscale);
+        }
+    });
+
+    it('decodes Group 4 fax pages from big-endian files', async () => {
+        const decoded = await decodeTiffPage(bigEndianFaxTiff(1), 0);
+        expect(decoded.data).toEqual(makePage(8, 3, faxPixel).data);
+        expect(decoded.greyscale).toEqual({ bitsPerSample: 1, whiteIsZero: true });
+    });
+
+    it('replaces one page and copies the others through unchanged', async () => {
+        const replacement = makePage(2, 2, () => [10, 20, 30]);
+        const bytes = await replaceTiffPage(bigEndianFaxTiff(3), 1, replacement);
+        expect(countTiffPages(bytes)).toBe(3);
+        expect((await decodeTiffPage(bytes, 0)).data).toEqual(makePage(8, 3, faxPixel).data);
+        expect((await decodeTiffPage(bytes, 1)).data).toEqual(replacement.data);
+        expect((await decodeTiffPage(bytes, 2)).data).toEqual(makePage(8, 3, faxPixel).data);
+        // The fax strip is copied, not re-encoded.
+        expect(Buffer.from(bytes).includes(Buffer.from([0x93, 0x57, 0xe0]))).toBe(true);
+        await expect(replaceTiffPage(bytes, 3, replacement)).rejects.toThrow('TIFF has no page 4');
+    });
+});
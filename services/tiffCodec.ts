@@ -0,0 +1,699 @@
+import { createCanvas, getContext2d } from './canvasFactory';
+import { CcittOptions, decodeCcitt } from './ccittFax';
+import { getIccColorSpace } from './imageMetadata';
+
+// A small baseline TIFF reader and writer, enough for scanner output. Reads
+// strips or tiles that are uncompressed, LZW, Deflate, PackBits, CCITT fax or
+// JPEG compressed, in bilevel, greyscale, palette, RGB, CMYK or (JPEG) YCbCr.
+// BigTIFF and planar layouts are not supported. Edited pages are written back
+// Deflate-compressed, bilevel and greyscale ones at their own bit depth and the
+// rest as 8-bit RGB, keeping their resolution, colour profile and descriptive
+// tags. Pages that weren't edited are copied through as they were.
+
+const TAG = {
+    imageWidth: 256,
+    imageLength: 257,
+    bitsPerSample: 258,
+    compression: 259,
+    photometric: 262,
+    fillOrder: 266,
+    stripOffsets: 273,
+    samplesPerPixel: 277,
+    rowsPerStrip: 278,
+    stripByteCounts: 279,
+    xResolution: 282,
+    yResolution: 283,
+    planarConfiguration: 284,
+    t4Options: 292,
+    resolutionUnit: 296,
+    predictor: 317,
+    colorMap: 320,
+    tileWidth: 322,
+    tileLength: 323,
+    tileOffsets: 324,
+    tileByteCounts: 325,
+    extraSamples: 338,
+    jpegTables: 347,
+    jpegInterchangeFormat: 513,
+    jpegInterchangeFormatLength: 514,
+    iccProfile: 34675,
+};
+
+// Tags pointing at the data of a copied page, each with the tag holding its lengths.
+const DATA_TAGS: [number, number][] = [
+    [TAG.stripOffsets, TAG.stripByteCounts],
+    [TAG.tileOffsets, TAG.tileByteCounts],
+    [TAG.jpegInterchangeFormat, TAG.jpegInterchangeFormatLength],
+];
+
+// Tags pointing at structures elsewhere in the file (FreeOffsets, SubIFDs, and
+// the EXIF, GPS and interoperability IFDs), which a copied page leaves behind.
+const DROPPED_TAGS = [288, 289, 330, 34665, 34853, 40965];
+
+// Text and byte-string tags copied verbatim to the saved file: ImageDescription,
+// Make, Model, Software, DateTime, Artist, XMP, Copyright and the ICC profile.
+const PRESERVED_TAGS = [270, 271, 272, 305, 306, 315, 700, 33432, TAG.iccProfile];
+
+const COMPRESSION = {
+    none: 1,
+    modifiedHuffman: 2,
+    t4: 3,
+    t6: 4,
+    lzw: 5,
+    jpeg: 7,
+    deflate: 8,
+    adobeDeflate: 32946,
+    packBits: 32773,
+};
+
+const PHOTOMETRIC = {
+    whiteIsZero: 0,
+    blackIsZero: 1,
+    rgb: 2,
+    palette: 3,
+    cmyk: 5,
+    yCbCr: 6,
+};
+
+const TYPE = { byte: 1, ascii: 2, short: 3, long: 4, rational: 5, undefined: 7, signedRational: 10 };
+// Bytes per value, by field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+export type Rational = [number, number];
+
+// A tag whose values are single bytes, so they read the same in either byte order.
+export interface TiffByteTag {
+    tag: number;
+    type: number;
+    bytes: Uint8Array;
+}
+
+// How a bilevel (1-bit) or greyscale page stored its samples, so it can be saved
+// back the same way instead of as RGB.
+export interface TiffGreyscale {
+    bitsPerSample: 1 | 2 | 4 | 8;
+    whiteIsZero: boolean;
+}
+
+export interface TiffPage {
+    width: number;
+    height: number;
+    // RGBA, laid out like ImageData.
+    data: Uint8ClampedArray;
+    // Unset for colour pages.
+    greyscale?: TiffGreyscale;
+    xResolution?: Rational;
+    yResolution?: Rational;
+    resolutionUnit?: number;
+    extraTags?: TiffByteTag[];
+}
+
+interface IfdEntry {
+    type: number;
+    count: number;
+    // Where the values start: inside the entry when they fit in four bytes.
+    valueOffset: number;
+}
+
+type Ifd = Map<number, IfdEntry>;
+
+class TiffReader {
+    private view: DataView;
+    private littleEndian: boolean;
+
+    constructor(readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const order = String.fromCharCode(bytes[0], bytes[1]);
+        if (order !== 'II' && order !== 'MM') throw new Error('Not a TIFF file');
+        this.littleEndian = order === 'II';
+        const magic = this.view.getUint16(2, this.littleEndian);
+        if (magic === 43) throw new Error('BigTIFF files are not supported');
+        if (magic !== 42) throw new Error('Not a TIFF file');
+    }
+
+    get isLittleEndian(): boolean {
+        return this.littleEndian;
+    }
+
+    readIfds(): Ifd[] {
+        const ifds: Ifd[] = [];
+        const seen = new Set<number>();
+        let offset = this.view.getUint32(4, this.littleEndian);
+        // A corrupt file can point an IFD back at an earlier one.
+        while (offset !== 0 && !seen.has(offset)) {
+            seen.add(offset);
+            const count = this.view.getUint16(offset, this.littleEndian);
+            const ifd: Ifd = new Map();
+            for (let i = 0; i < count; i++) {
+                const at = offset + 2 + i * 12;
+                const type = this.view.getUint16(at + 2, this.littleEndian);
+                const valueCount = this.view.getUint32(at + 4, this.littleEndian);
+                const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+                ifd.set(this.view.getUint16(at, this.littleEndian), {
+                    type,
+                    count: valueCount,
+                    valueOffset: size <= 4 ? at + 8 : this.view.getUint32(at + 8, this.littleEndian),
+                });
+            }
+            ifds.push(ifd);
+            offset = this.view.getUint32(offset + 2 + count * 12, this.littleEndian);
+        }
+        return ifds;
+    }
+
+    values(ifd: Ifd, tag: number): number[] | undefined {
+        const entry = ifd.get(tag);
+        if (!entry) return undefined;
+        const { type, count, valueOffset } = entry;
+        const size = TYPE_SIZES[type] ?? 1;
+        const le = this.littleEndian;
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const at = valueOffset + i * size;
+            switch (type) {
+                case 3: values.push(this.view.getUint16(at, le)); break;
+                case 4: values.push(this.view.getUint32(at, le)); break;
+                case 5: values.push(this.view.getUint32(at, le) / (this.view.getUint32(at + 4, le) || 1)); break;
+                case 6: values.push(this.view.getInt8(at)); break;
+                case 8: values.push(this.view.getInt16(at, le)); break;
+                case 9: values.push(this.view.getInt32(at, le)); break;
+                case 10: values.push(this.view.getInt32(at, le) / (this.view.getInt32(at + 4, le) || 1)); break;
+                case 11: values.push(this.view.getFloat32(at, le)); break;
+                case 12: values.push(this.view.getFloat64(at, le)); break;
+                default: values.push(this.view.getUint8(at));
+            }
+        }
+        return values;
+    }
+
+    value(ifd: Ifd, tag: number, fallback: number): number {
+        return this.values(ifd, tag)?.[0] ?? fallback;
+    }
+
+    rational(ifd: Ifd, tag: number): Rational | undefined {
+        const entry = ifd.get(tag);
+        if (!entry || entry.type !== TYPE.rational) return undefined;
+        return [this.view.getUint32(entry.valueOffset, this.littleEndian), this.view.getUint32(entry.valueOffset + 4, this.littleEndian)];
+    }
+
+    byteTags(ifd: Ifd, tags: number[]): TiffByteTag[] {
+        return tags.flatMap(tag => {
+            const entry = ifd.get(tag);
+            if (!entry || ![TYPE.byte, TYPE.ascii, TYPE.undefined].includes(entry.type)) return [];
+            return [{ tag, type: entry.type, bytes: this.bytes.slice(entry.valueOffset, entry.valueOffset + entry.count) }];
+        });
+    }
+
+    rawBytes(ifd: Ifd, tag: number): Uint8Array | undefined {
+        const entry = ifd.get(tag);
+        if (!entry) return undefined;
+        return this.bytes.subarray(entry.valueOffset, entry.valueOffset + entry.count * (TYPE_SIZES[entry.type] ?? 1));
+    }
+
+    // An entry's values as little-endian bytes, whatever the file's byte order.
+    littleEndianBytes(ifd: Ifd, tag: number): Uint8Array {
+        const { type, count, valueOffset } = ifd.get(tag)!;
+        const bytes = this.bytes.slice(valueOffset, valueOffset + count * (TYPE_SIZES[type] ?? 1));
+        if (!this.littleEndian) {
+            // Rationals are two 32-bit values each.
+            const unit = type === TYPE.rational || type === TYPE.signedRational ? 4 : TYPE_SIZES[type] ?? 1;
+            for (let i = 0; i + unit <= bytes.length; i += unit) bytes.subarray(i, i + unit).reverse();
+        }
+        return bytes;
+    }
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// TIFF's LZW: MSB-first codes of 9 to 12 bits, with the code width growing one
+// code early (the "early change" libtiff has always written).
+function decodeLzw(input: Uint8Array, expectedLength: number): Uint8Array {
+    const CLEAR = 256;
+    const END = 257;
+    const prefix = new Int32Array(4096);
+    const suffix = new Uint8Array(4096);
+    const first = new Uint8Array(4096);
+    const length = new Uint16Array(4096);
+    for (let i = 0; i < 256; i++) {
+        prefix[i] = -1;
+        suffix[i] = i;
+        first[i] = i;
+        length[i] = 1;
+    }
+
+    let output = new Uint8Array(Math.max(expectedLength, 1024));
+    let outPos = 0;
+    const emit = (code: number) => {
+        const len = length[code];
+        if (outPos + len > output.length) {
+            const grown = new Uint8Array(Math.max(output.length * 2, outPos + len));
+            grown.set(output);
+            output = grown;
+        }
+        for (let i = len - 1, c = code; i >= 0; i--, c = prefix[c]) {
+            output[outPos + i] = suffix[c];
+        }
+        outPos += len;
+    };
+
+    let codeLength = 9;
+    let nextCode = 258;
+    const add = (prefixCode: number, byte: number) => {
+        if (nextCode >= 4096) return;
+        prefix[nextCode] = prefixCode;
+        suffix[nextCode] = byte;
+        first[nextCode] = first[prefixCode];
+        length[nextCode] = length[prefixCode] + 1;
+        nextCode++;
+        if (nextCode >= (1 << codeLength) - 1 && codeLength < 12) codeLength++;
+    };
+
+    let bitPos = 0;
+    const totalBits = input.length * 8;
+    let previous = -1;
+    while (bitPos + codeLength <= totalBits) {
+        let code = 0;
+        for (let i = 0; i < codeLength; i++, bitPos++) {
+            code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+        }
+        if (code === END) break;
+        if (code === CLEAR) {
+            codeLength = 9;
+            nextCode = 258;
+            previous = -1;
+            continue;
+        }
+        if (previous === -1) {
+            if (code > 255) throw new Error('Corrupt LZW data in TIFF');
+            emit(code);
+        } else if (code < nextCode) {
+            emit(code);
+            add(previous, first[code]);
+        } else {
+            add(previous, first[previous]);
+            emit(code);
+        }
+        previous = code;
+    }
+    return output.subarray(0, outPos);
+}
+
+function decodePackBits(input: Uint8Array, expectedLength: number): Uint8Array {
+    const output = new Uint8Array(expectedLength);
+    let inPos = 0;
+    let outPos = 0;
+    while (inPos < input.length && outPos < expectedLength) {
+        const header = (input[inPos++] << 24) >> 24;
+        if (header >= 0) {
+            const count = Math.min(header + 1, expectedLength - outPos);
+            output.set(input.subarray(inPos, inPos + count), outPos);
+            inPos += header + 1;
+            outPos += count;
+        } else if (header !== -128) {
+            output.fill(input[inPos++], outPos, Math.min(expectedLength, outPos + 1 - header));
+            outPos += 1 - header;
+        }
+    }
+    return output;
+}
+
+async function decompress(compression: number, data: Uint8Array, expectedLength: number, fax: CcittOptions): Promise<Uint8Array> {
+    switch (compression) {
+        case COMPRESSION.none: return data;
+        case COMPRESSION.lzw: return decodeLzw(data, expectedLength);
+        case COMPRESSION.deflate:
+        case COMPRESSION.adobeDeflate: return inflate(data);
+        case COMPRESSION.packBits: return decodePackBits(data, expectedLength);
+        case COMPRESSION.modifiedHuffman:
+        case COMPRESSION.t4:
+        case COMPRESSION.t6: return decodeCcitt(compression, data, fax);
+        default: throw new Error(`TIFF compression ${compression} is not supported`);
+    }
+}
+
+// Abbreviated JPEG chunks share their quantisation and Huffman tables through
+// the JPEGTables tag; splicing them back in gives a stream browsers can decode.
+async function decodeJpegChunk(chunk: Uint8Array, tables?: Uint8Array): Promise<ImageBitmap> {
+    const jpeg = tables && tables.length > 4
+        ? new Uint8Array([...tables.subarray(0, tables.length - 2), ...chunk.subarray(2)])
+        : chunk;
+    return createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+}
+
+interface PageLayout {
+    reader: TiffReader;
+    ifd: Ifd;
+    width: number;
+    height: number;
+    // Strips are treated as tiles as wide as the page.
+    chunkWidth: number;
+    chunkHeight: number;
+    offsets: number[];
+    byteCounts: number[];
+}
+
+function getPageLayout(reader: TiffReader, ifd: Ifd): PageLayout {
+    const width = reader.value(ifd, TAG.imageWidth, 0);
+    const height = reader.value(ifd, TAG.imageLength, 0);
+    if (!width || !height) throw new Error('TIFF page has no size');
+    if (reader.value(ifd, TAG.planarConfiguration, 1) !== 1) throw new Error('Planar TIFF pages are not supported');
+
+    const tiled = ifd.has(TAG.tileOffsets);
+    return {
+        reader,
+        ifd,
+        width,
+        height,
+        chunkWidth: tiled ? reader.value(ifd, TAG.tileWidth, width) : width,
+        chunkHeight: tiled ? reader.value(ifd, TAG.tileLength, height) : Math.min(height, reader.value(ifd, TAG.rowsPerStrip, height)),
+        offsets: reader.values(ifd, tiled ? TAG.tileOffsets : TAG.stripOffsets) ?? [],
+        byteCounts: reader.values(ifd, tiled ? TAG.tileByteCounts : TAG.stripByteCounts) ?? [],
+    };
+}
+
+function chunkOrigin(layout: PageLayout, index: number): { x: number, y: number } {
+    const across = Math.ceil(layout.width / layout.chunkWidth);
+    return { x: (index % across) * layout.chunkWidth, y: Math.floor(index / across) * layout.chunkHeight };
+}
+
+async function decodeJpegPage(layout: PageLayout): Promise<Uint8ClampedArray> {
+    const { reader, ifd, width, height } = layout;
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2d(canvas, { willReadFrequently: true });
+    const tables = reader.rawBytes(ifd, TAG.jpegTables);
+    for (let i = 0; i < layout.offsets.length; i++) {
+        const chunk = reader.bytes.subarray(layout.offsets[i], layout.offsets[i] + layout.byteCounts[i]);
+        const bitmap = await decodeJpegChunk(chunk, tables);
+        const { x, y } = chunkOrigin(layout, i);
+        ctx.drawImage(bitmap, x, y);
+        bitmap.close();
+    }
+    return ctx.getImageData(0, 0, width, height).data;
+}
+
+async function decodeSampledPage(layout: PageLayout): Promise<Uint8ClampedArray> {
+    const { reader, ifd, width, height, chunkWidth, chunkHeight } = layout;
+    const compression = reader.value(ifd, TAG.compression, COMPRESSION.none);
+    const photometric = reader.value(ifd, TAG.photometric, PHOTOMETRIC.blackIsZero);
+    const samplesPerPixel = reader.value(ifd, TAG.samplesPerPixel, 1);
+    const bitsPerSample = reader.value(ifd, TAG.bitsPerSample, 1);
+    const predictor = reader.value(ifd, TAG.predictor, 1);
+    const fax: Omit<CcittOptions, 'rows'> = {
+        columns: chunkWidth,
+        t4Options: reader.value(ifd, TAG.t4Options, 0),
+        reversedBits: reader.value(ifd, TAG.fillOrder, 1) === 2,
+    };
+    const colorMap = reader.values(ifd, TAG.colorMap);
+    // An extra sample after the colour channels is alpha; pages are flattened onto white.
+    const hasAlpha = (reader.values(ifd, TAG.extraSamples) ?? []).length > 0;
+    const colorSamples = hasAlpha ? samplesPerPixel - 1 : samplesPerPixel;
+
+    if (![1, 2, 4, 8, 16].includes(bitsPerSample)) throw new Error(`${bitsPerSample}-bit TIFF pages are not supported`);
+    if (photometric === PHOTOMETRIC.yCbCr) throw new Error('Uncompressed YCbCr TIFF pages are not supported');
+    if (predictor === 2 && bitsPerSample !== 8) throw new Error('TIFF predictor is only supported for 8-bit samples');
+    if (photometric === PHOTOMETRIC.palette && !colorMap) throw new Error('TIFF palette page has no colour map');
+
+    const maxValue = (1 << Math.min(bitsPerSample, 8)) - 1;
+    const rowBytes = Math.ceil((chunkWidth * samplesPerPixel * bitsPerSample) / 8);
+    const highByte = reader.isLittleEndian ? 1 : 0;
+    const readSample = (row: Uint8Array, rowStart: number, index: number): number => {
+        if (bitsPerSample === 8) return row[rowStart + index];
+        if (bitsPerSample === 16) return row[rowStart + index * 2 + highByte];
+        const bit = index * bitsPerSample;
+        return (row[rowStart + (bit >> 3)] >> (8 - bitsPerSample - (bit & 7))) & maxValue;
+    };
+
+    const output = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < layout.offsets.length; i++) {
+        const raw = reader.bytes.subarray(layout.offsets[i], layout.offsets[i] + layout.byteCounts[i]);
+        const { x: originX, y: originY } = chunkOrigin(layout, i);
+        // The last strip of a page may hold fewer rows than the others.
+        const rows = Math.min(chunkHeight, height - originY);
+        const chunk = await decompress(compression, raw, rowBytes * chunkHeight, { ...fax, rows });
+
+        for (let row = 0; row < chunkHeight; row++) {
+            const y = originY + row;
+            if (y >= height) break;
+            const rowStart = row * rowBytes;
+            if (rowStart + rowBytes > chunk.length) break;
+            if (predictor === 2) {
+                for (let b = samplesPerPixel; b < rowBytes; b++) {
+                    chunk[rowStart + b] = (chunk[rowStart + b] + chunk[rowStart + b - samplesPerPixel]) & 0xff;
+                }
+            }
+
+            for (let col = 0; col < chunkWidth; col++) {
+                const x = originX + col;
+                if (x >= width) break;
+                const sample = (s: number) => readSample(chunk, rowStart, col * samplesPerPixel + s);
+                let r: number, g: number, b: number;
+                if (photometric === PHOTOMETRIC.rgb && colorSamples >= 3) {
+                    [r, g, b] = [sample(0), sample(1), sample(2)];
+                } else if (photometric === PHOTOMETRIC.palette) {
+                    const entries = 1 << bitsPerSample;
+                    const index = bitsPerSample === 16 ? (chunk[rowStart + col * 2 + 1 - highByte] << 8) | sample(0) : sample(0);
+                    [r, g, b] = [colorMap![index] >> 8, colorMap![entries + index] >> 8, colorMap![entries * 2 + index] >> 8];
+                } else if (photometric === PHOTOMETRIC.cmyk && colorSamples >= 4) {
+                    const k = 255 - sample(3);
+                    [r, g, b] = [((255 - sample(0)) * k) / 255, ((255 - sample(1)) * k) / 255, ((255 - sample(2)) * k) / 255];
+                } else {
+                    const level = (sample(0) * 255) / maxValue;
+                    const gray = photometric === PHOTOMETRIC.whiteIsZero ? 255 - level : level;
+                    [r, g, b] = [gray, gray, gray];
+                }
+                if (hasAlpha) {
+                    const alpha = (sample(colorSamples) * 255) / maxValue / 255;
+                    [r, g, b] = [r * alpha + 255 * (1 - alpha), g * alpha + 255 * (1 - alpha), b * alpha + 255 * (1 - alpha)];
+                }
+                const out = (y * width + x) * 4;
+                output[out] = r;
+                output[out + 1] = g;
+                output[out + 2] = b;
+                output[out + 3] = 255;
+            }
+        }
+    }
+    return output;
+}
+
+export function countTiffPages(bytes: Uint8Array): number {
+    return new TiffReader(bytes).readIfds().length;
+}
+
+function getGreyscale(reader: TiffReader, ifd: Ifd): TiffGreyscale | undefined {
+    const photometric = reader.value(ifd, TAG.photometric, PHOTOMETRIC.blackIsZero);
+    const colorSamples = reader.value(ifd, TAG.samplesPerPixel, 1) - (reader.values(ifd, TAG.extraSamples) ?? []).length;
+    if ((photometric !== PHOTOMETRIC.whiteIsZero && photometric !== PHOTOMETRIC.blackIsZero) || colorSamples !== 1) return undefined;
+    const bits = reader.value(ifd, TAG.bitsPerSample, 1);
+    // 16-bit samples come out of decoding as 8-bit ones.
+    return { bitsPerSample: bits === 1 || bits === 2 || bits === 4 ? bits : 8, whiteIsZero: photometric === PHOTOMETRIC.whiteIsZero };
+}
+
+// `index` is zero-based.
+export async function decodeTiffPage(bytes: Uint8Array, index: number): Promise<TiffPage> {
+    const reader = new TiffReader(bytes);
+    const ifd = reader.readIfds()[index];
+    if (!ifd) throw new Error(`TIFF has no page ${index + 1}`);
+    const layout = getPageLayout(reader, ifd);
+    const isJpeg = reader.value(ifd, TAG.compression, COMPRESSION.none) === COMPRESSION.jpeg;
+    const greyscale = getGreyscale(reader, ifd);
+    return {
+        width: layout.width,
+        height: layout.height,
+        data: isJpeg ? await decodeJpegPage(layout) : await decodeSampledPage(layout),
+        greyscale,
+        xResolution: reader.rational(ifd, TAG.xResolution),
+        yResolution: reader.rational(ifd, TAG.yResolution),
+        resolutionUnit: ifd.has(TAG.resolutionUnit) ? reader.value(ifd, TAG.resolutionUnit, 2) : undefined,
+        // A profile is only kept if it still describes the colour space the page is saved in.
+        extraTags: reader.byteTags(ifd, PRESERVED_TAGS)
+            .filter(tag => tag.tag !== TAG.iccProfile || getIccColorSpace(tag.bytes) === (greyscale ? 'GRAY' : 'RGB ')),
+    };
+}
+
+// Horizontal differencing (predictor 2) on 8-bit samples, which roughly halves
+// the size of scanned pages once deflated.
+function applyPredictor(samples: Uint8Array, width: number, height: number, samplesPerPixel: number): Uint8Array {
+    const rowBytes = width * samplesPerPixel;
+    for (let y = 0; y < height; y++) {
+        const rowStart = y * rowBytes;
+        for (let b = rowBytes - 1; b >= samplesPerPixel; b--) {
+            samples[rowStart + b] = (samples[rowStart + b] - samples[rowStart + b - samplesPerPixel]) & 0xff;
+        }
+    }
+    return samples;
+}
+
+function toRgbSamples({ width, height, data }: TiffPage): Uint8Array {
+    const rgb = new Uint8Array(width * height * 3);
+    for (let i = 0, o = 0; i < data.length; i += 4, o += 3) {
+        rgb[o] = data[i];
+        rgb[o + 1] = data[i + 1];
+        rgb[o + 2] = data[i + 2];
+    }
+    return applyPredictor(rgb, width, height, 3);
+}
+
+// Luminance packed `bitsPerSample` to a sample, most significant bits first and
+// each row starting on a new byte.
+function toGreyscaleSamples({ width, height, data }: TiffPage, { bitsPerSample, whiteIsZero }: TiffGreyscale): Uint8Array {
+    const maxValue = (1 << bitsPerSample) - 1;
+    const rowBytes = Math.ceil((width * bitsPerSample) / 8);
+    const samples = new Uint8Array(rowBytes * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const level = Math.round(((0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * maxValue) / 255);
+            const bit = x * bitsPerSample;
+            samples[y * rowBytes + (bit >> 3)] |= (whiteIsZero ? maxValue - level : level) << (8 - bitsPerSample - (bit & 7));
+        }
+    }
+    return bitsPerSample === 8 ? applyPredictor(samples, width, height, 1) : samples;
+}
+
+// Byte-typed entries carry `bytes` instead of `values`; so do copied entries,
+// already in little-endian order.
+type EntryValue = { tag: number, type: number, values: number[], bytes?: Uint8Array };
+
+// A page ready to be written: its IFD entries and the strips or tiles that the
+// offset tags in `data` point at.
+interface PageOutput {
+    entries: EntryValue[];
+    data: { offsetsTag: number, byteCountsTag: number, chunks: Uint8Array[] }[];
+}
+
+async function encodePage(page: TiffPage): Promise<PageOutput> {
+    const { greyscale } = page;
+    const strip = await deflate(greyscale ? toGreyscaleSamples(page, greyscale) : toRgbSamples(page));
+    const predicted = !greyscale || greyscale.bitsPerSample === 8;
+    const entries: EntryValue[] = [
+        { tag: TAG.imageWidth, type: TYPE.long, values: [page.width] },
+        { tag: TAG.imageLength, type: TYPE.long, values: [page.height] },
+        { tag: TAG.bitsPerSample, type: TYPE.short, values: greyscale ? [greyscale.bitsPerSample] : [8, 8, 8] },
+        { tag: TAG.compression, type: TYPE.short, values: [COMPRESSION.adobeDeflate] },
+        {
+            tag: TAG.photometric,
+            type: TYPE.short,
+            values: [greyscale ? (greyscale.whiteIsZero ? PHOTOMETRIC.whiteIsZero : PHOTOMETRIC.blackIsZero) : PHOTOMETRIC.rgb],
+        },
+        { tag: TAG.samplesPerPixel, type: TYPE.short, values: [greyscale ? 1 : 3] },
+        { tag: TAG.rowsPerStrip, type: TYPE.long, values: [page.height] },
+        { tag: TAG.planarConfiguration, type: TYPE.short, values: [1] },
+        { tag: TAG.predictor, type: TYPE.short, values: [predicted ? 2 : 1] },
+    ];
+    if (page.xResolution) entries.push({ tag: TAG.xResolution, type: TYPE.rational, values: page.xResolution });
+    if (page.yResolution) entries.push({ tag: TAG.yResolution, type: TYPE.rational, values: page.yResolution });
+    if (page.resolutionUnit) entries.push({ tag: TAG.resolutionUnit, type: TYPE.short, values: [page.resolutionUnit] });
+    page.extraTags?.forEach(({ tag, type, bytes }) => entries.push({ tag, type, values: [], bytes }));
+    return { entries, data: [{ offsetsTag: TAG.stripOffsets, byteCountsTag: TAG.stripByteCounts, chunks: [strip] }] };
+}
+
+// A page as it is in the original file, its tags and compressed data untouched.
+function copyPage(reader: TiffReader, ifd: Ifd): PageOutput {
+    const data = DATA_TAGS.filter(([offsetsTag]) => ifd.has(offsetsTag)).map(([offsetsTag, byteCountsTag]) => {
+        const byteCounts = reader.values(ifd, byteCountsTag) ?? [];
+        const chunks = (reader.values(ifd, offsetsTag) ?? []).map((offset, i) => reader.bytes.subarray(offset, offset + (byteCounts[i] ?? 0)));
+        return { offsetsTag, byteCountsTag, chunks };
+    });
+    const skipped = new Set([...DATA_TAGS.flat(), ...DROPPED_TAGS]);
+    const entries = [...ifd.entries()]
+        // Types this reader doesn't know the size of can't be copied safely.
+        .filter(([tag, { type }]) => !skipped.has(tag) && TYPE_SIZES[type] !== undefined)
+        .map(([tag, { type }]) => ({ tag, type, values: [], bytes: reader.littleEndianBytes(ifd, tag) }));
+    return { entries, data };
+}
+
+function writeTiff(pages: PageOutput[]): Uint8Array {
+    const pageEntries = pages.map(({ entries, data }): EntryValue[] => [
+        ...entries,
+        ...data.flatMap(({ offsetsTag, byteCountsTag, chunks }) => [
+            { tag: offsetsTag, type: TYPE.long, values: chunks.map(() => 0) },
+            { tag: byteCountsTag, type: TYPE.long, values: chunks.map(chunk => chunk.length) },
+        ]),
+    ].sort((a, b) => a.tag - b.tag));
+
+    // Values that don't fit in an entry's four bytes follow the IFD.
+    const valueCount = (entry: EntryValue) => entry.bytes
+        ? entry.bytes.length / TYPE_SIZES[entry.type]
+        : entry.type === TYPE.rational ? entry.values.length / 2 : entry.values.length;
+    const valueSize = (entry: EntryValue) => TYPE_SIZES[entry.type] * valueCount(entry);
+
+    // Layout per page: its chunks, each padded to an even length, then the IFD
+    // and its out-of-line values.
+    const ifdOffsets: number[] = [];
+    let offset = 8;
+    pages.forEach(({ data }, i) => {
+        data.forEach(({ offsetsTag, chunks }) => {
+            pageEntries[i].find(e => e.tag === offsetsTag)!.values = chunks.map(chunk => {
+                const chunkOffset = offset;
+                offset += chunk.length + (chunk.length % 2);
+                return chunkOffset;
+            });
+        });
+        ifdOffsets.push(offset);
+        offset += 2 + pageEntries[i].length * 12 + 4;
+        // Each out-of-line value starts on a word boundary.
+        pageEntries[i].forEach(entry => {
+            if (valueSize(entry) > 4) offset += valueSize(entry) + (valueSize(entry) % 2);
+        });
+    });
+
+    const output = new Uint8Array(offset);
+    const view = new DataView(output.buffer);
+    output.set([0x49, 0x49, 42, 0]);
+    view.setUint32(4, ifdOffsets[0] ?? 0, true);
+
+    pages.forEach(({ data }, i) => {
+        const entries = pageEntries[i];
+        data.forEach(({ offsetsTag, chunks }) => {
+            const offsets = entries.find(e => e.tag === offsetsTag)!.values;
+            chunks.forEach((chunk, c) => output.set(chunk, offsets[c]));
+        });
+
+        const ifdOffset = ifdOffsets[i];
+        view.setUint16(ifdOffset, entries.length, true);
+        let extraOffset = ifdOffset + 2 + entries.length * 12 + 4;
+        entries.forEach((entry, e) => {
+            const at = ifdOffset + 2 + e * 12;
+            view.setUint16(at, entry.tag, true);
+            view.setUint16(at + 2, entry.type, true);
+            view.setUint32(at + 4, valueCount(entry), true);
+            const size = valueSize(entry);
+            let valueAt = at + 8;
+            if (size > 4) {
+                view.setUint32(at + 8, extraOffset, true);
+                valueAt = extraOffset;
+                extraOffset += size + (size % 2);
+            }
+            if (entry.bytes) output.set(entry.bytes, valueAt);
+            entry.values.forEach((value, v) => {
+                if (entry.type === TYPE.short) view.setUint16(valueAt + v * 2, value, true);
+                else view.setUint32(valueAt + v * 4, value, true);
+            });
+        });
+        view.setUint32(ifdOffset + 2 + entries.length * 12, ifdOffsets[i + 1] ?? 0, true);
+    });
+
+    return output;
+}
+
+export async function encodeTiff(pages: TiffPage[]): Promise<Uint8Array> {
+    return writeTiff(await Promise.all(pages.map(encodePage)));
+}
+
+// `bytes` with page `index` (zero-based) replaced by `page`. The other pages are
+// copied over as they were, compressed data and all.
+export async function replaceTiffPage(bytes: Uint8Array, index: number, page: TiffPage): Promise<Uint8Array> {
+    const reader = new TiffReader(bytes);
+    const ifds = reader.readIfds();
+    if (!ifds[index]) throw new Error(`TIFF has no page ${index + 1}`);
+    return writeTiff(await Promise.all(ifds.map((ifd, i) => (i === index ? encodePage(page) : copyPage(reader, ifd)))));
+}
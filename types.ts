@@ -7,6 +7,9 @@ export interface DetectedQrCode extends QRCode {
   id: string;
   page?: number;
   data: string;
+  detection?: QrDetectionInfo;
+  // Where a PDF link annotation over the code points, if there is one.
+  linkUri?: string;
   location: {
     topRightCorner: { x: number; y: number };
     topLeftCorner: { x: number; y: number };
@@ -19,4 +22,89 @@ export interface DetectedQrCode extends QRCode {
   };
 }
 
+// Which detection pass found a code. Everything after 'direct' is a retry on
+// a preprocessed or resampled copy of the page. 'manual' is a region the user
+// outlined by hand that could not be decoded; its payload is empty.
+export type DetectionStrategy = 'direct' | 'contrast' | 'adaptiveThreshold' | 'inverted' | 'upscaled' | 'downscaled' | 'manual';
+
+export interface QrDetectionInfo {
+  strategy: DetectionStrategy;
+  // Share of the passes that decoded the same payload at this spot, 0-1.
+  confidence: number;
+}
+
 export type FileType = 'pdf' | 'image' | null;
+
+// 'cover' paints the new code over the old one; 'inPlace' removes the old code's
+// image or vector data from the PDF before drawing the new one.
+export type PdfReplaceMode = 'cover' | 'inPlace';
+
+// 'rewrite' saves the whole PDF afresh; 'incremental' appends only the changed
+// objects, leaving the original bytes (and any signature over them) intact.
+export type PdfSaveMode = 'rewrite' | 'incremental';
+
+// 'vector' draws the new code as a PDF path so it stays sharp at any print size;
+// 'image' embeds a PNG.
+export type PdfQrFormat = 'vector' | 'image';
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+// 'min' uses the given version unless the payload needs a larger one; 'fixed' fails instead.
+export type QrVersionMode = 'auto' | 'min' | 'fixed';
+
+export interface QrGenerationOptions {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  margin: number;
+  darkColor: string;
+  lightColor: string;
+  versionMode: QrVersionMode;
+  version: number;
+  // 0-7, or undefined to let the encoder pick the best mask.
+  maskPattern?: number;
+}
+
+export interface QrReplaceOptions {
+  pdfReplaceMode?: PdfReplaceMode;
+  pdfQrFormat?: PdfQrFormat;
+  pdfSaveMode?: PdfSaveMode;
+  // Point link annotations over the code at the new payload, when it is a link.
+  pdfUpdateLinks?: boolean;
+  generation?: QrGenerationOptions;
+  // Sample colours, quiet zone and module size from the code being replaced
+  // instead of using `generation`'s.
+  matchOriginal?: boolean;
+  // 1-100 for saving JPEGs; unset keeps the quality the original was saved at.
+  jpegQuality?: number;
+}
+
+// Outcome of re-decoding a replacement. Failed edits are rolled back and only
+// kept so the change log can show them.
+export type QrEditVerification = 'verified' | 'failed';
+
+// A single QR replacement in the edit session. Edits are replayed in order on
+// top of the original upload, so any one of them can be dropped independently.
+export interface QrEdit {
+  id: string;
+  qrCode: DetectedQrCode;
+  page: number;
+  index: number;
+  oldText: string;
+  newText: string;
+  options?: QrReplaceOptions;
+  // Edits applied together (e.g. a bulk replace) share a batch id and are undone as one step.
+  batchId?: string;
+  verification?: QrEditVerification;
+  // When the edit was first applied and verified (ISO 8601).
+  appliedAt?: string;
+  // Places a brand-new code rather than replacing one; `qrCode` is a placeholder
+  // marking where it goes and `oldText` is empty.
+  inserted?: boolean;
+}
+
+// Where a new code is placed, in page canvas pixels from the top-left corner.
+// The square includes the code's quiet zone.
+export interface QrPlacement {
+  x: number;
+  y: number;
+  size: number;
+}
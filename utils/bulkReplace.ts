@@ -0,0 +1,47 @@
+import { DetectedQrCode } from '../types';
+
+export interface BulkReplaceRule {
+  pattern: string;
+  replacement: string;
+  useRegex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface BulkReplaceMatch {
+  qrCode: DetectedQrCode;
+  oldText: string;
+  newText: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Throws a SyntaxError for an invalid regular expression; callers surface it as a validation message.
+export function buildBulkPattern(rule: BulkReplaceRule): RegExp {
+  const source = rule.useRegex ? rule.pattern : escapeRegExp(rule.pattern);
+  return new RegExp(source, rule.caseSensitive ? 'g' : 'gi');
+}
+
+export function applyBulkRule(text: string, rule: BulkReplaceRule): string {
+  // In literal mode `$` must not be read as a capture-group reference.
+  const replacement = rule.useRegex ? rule.replacement : rule.replacement.replace(/\$/g, '$$$$');
+  return text.replace(buildBulkPattern(rule), replacement);
+}
+
+export function findBulkMatches(
+  codes: DetectedQrCode[],
+  getPayload: (qrCode: DetectedQrCode) => string,
+  rule: BulkReplaceRule
+): BulkReplaceMatch[] {
+  if (!rule.pattern) return [];
+  const pattern = buildBulkPattern(rule);
+
+  return codes.flatMap(qrCode => {
+    const oldText = getPayload(qrCode);
+    pattern.lastIndex = 0;
+    if (!pattern.test(oldText)) return [];
+    const newText = applyBulkRule(oldText, rule);
+    return newText === oldText ? [] : [{ qrCode, oldText, newText }];
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DetectedQrCode, QrEdit } from '../types';
+import { createPlaceholderQrCode } from '../services/qrDetector';
+import { applyTemplateRule, createTemplateFromEdits, EditTemplate, findTemplateMatches, parseTemplateFile, serializeTemplates, TemplateRule } from './editTemplates';
+
+// A code with the given payload whose square spans `x` to `x + 100` on `page`.
+function makeCode(data: string, x: number, page = 1): DetectedQrCode {
+  const corners = [{ x, y: 0 }, { x: x + 100, y: 0 }, { x: x + 100, y: 100 }, { x, y: 100 }];
+  return { ...createPlaceholderQrCode(corners), id: `${data}@${page}:${x}`, data, page };
+}
+
+function makeTemplate(rules: TemplateRule[]): EditTemplate {
+  return { id: 't', name: 'Links', rules, autoApply: false, updatedAt: '2026-01-01T00:00:00.000Z' };
+}
+
+const payload = (code: DetectedQrCode) => code.data;
+
+describe('applyTemplateRule', () => {
+  it('applies each match mode', () => {
+    expect(applyTemplateRule('https://old.example', { mode: 'equals', pattern: 'https://old.example', replacement: 'https://new.example' })).toBe('https://new.example');
+    expect(applyTemplateRule('https://old.example/a', { mode: 'startsWith', pattern: 'https://old.example', replacement: 'https://new.example' })).toBe('https://new.example/a');
+    expect(applyTemplateRule('id=42', { mode: 'regex', pattern: 'id=(\\d+)', replacement: 'item/$1' })).toBe('item/42');
+    expect(applyTemplateRule('other', { mode: 'equals', pattern: 'https://old.example', replacement: 'x' })).toBeNull();
+  });
+});
+
+describe('findTemplateMatches', () => {
+  it('lets the first matching rule decide', () => {
+    const template = makeTemplate([
+      { mode: 'startsWith', pattern: 'https://old.example/special', replacement: 'https://special.example' },
+      { mode: 'startsWith', pattern: 'https://old.example', replacement: 'https://new.example' },
+    ]);
+    const codes = [makeCode('https://old.example/special/1', 0), makeCode('https://old.example/2', 200)];
+    expect(findTemplateMatches(codes, payload, template).map(match => match.newText))
+      .toEqual(['https://special.example/1', 'https://new.example/2']);
+  });
+
+  it('only applies pinned rules to the code on their page and position', () => {
+    const template = makeTemplate([{ mode: 'equals', pattern: 'a', replacement: 'b', page: 2, position: { x: 250, y: 50 } }]);
+    const codes = [makeCode('a', 200, 1), makeCode('a', 0, 2), makeCode('a', 200, 2)];
+    expect(findTemplateMatches(codes, payload, template).map(match => match.qrCode)).toEqual([codes[2]]);
+  });
+
+  it('skips codes the rule would leave as they are', () => {
+    const template = makeTemplate([
+      { mode: 'regex', pattern: '^https?://new\\.example', replacement: 'https://new.example' },
+      { mode: 'startsWith', pattern: 'https://', replacement: 'https://new.example/' },
+    ]);
+    // The first rule matches without changing anything, so the second isn't tried.
+    expect(findTemplateMatches([makeCode('https://new.example/a', 0)], payload, template)).toEqual([]);
+  });
+
+  it('matches against the current payload of edited codes', () => {
+    const code = makeCode('a', 0);
+    const template = makeTemplate([{ mode: 'equals', pattern: 'b', replacement: 'c' }]);
+    expect(findTemplateMatches([code], () => 'b', template)).toEqual([{ qrCode: code, oldText: 'b', newText: 'c' }]);
+  });
+});
+
+describe('createTemplateFromEdits', () => {
+  it('pins one rule per code from its first payload to its last', () => {
+    const code = makeCode('a', 0, 3);
+    const edit = (oldText: string, newText: string): QrEdit => ({ id: newText, qrCode: code, page: 3, index: 0, oldText, newText });
+    const inserted: QrEdit = { ...edit('', 'z'), qrCode: makeCode('', 200, 3), inserted: true };
+    const template = createTemplateFromEdits('From edits', [edit('a', 'b'), edit('b', 'c'), inserted]);
+    expect(template.rules).toEqual([{ mode: 'equals', pattern: 'a', replacement: 'c', page: 3, position: { x: 50, y: 50 } }]);
+  });
+});
+
+describe('template files', () => {
+  it('round-trip through export and import', () => {
+    const templates = [
+      makeTemplate([{ mode: 'regex', pattern: '(a)', replacement: '$1b', page: 1, position: { x: 1, y: 2 } }]),
+      { ...makeTemplate([{ mode: 'equals', pattern: 'x', replacement: 'y' }]), id: 'u', name: 'Other', autoApply: true },
+    ];
+    expect(parseTemplateFile(serializeTemplates(templates))).toEqual(templates);
+  });
+
+  it('rejects malformed files and rules', () => {
+    expect(() => parseTemplateFile('{"format":"something-else","templates":[]}')).toThrow('This is not a template file.');
+    expect(() => parseTemplateFile('{"format":"qr-edit-templates","version":2,"templates":[]}')).toThrow('newer version');
+    expect(() => parseTemplateFile('{"format":"qr-edit-templates","templates":[{"rules":[]}]}')).toThrow('Template 1 is incomplete.');
+    const rule = (fields: object) => serializeTemplates([makeTemplate([{ mode: 'equals', pattern: 'a', replacement: 'b', ...fields } as TemplateRule])]);
+    expect(() => parseTemplateFile(rule({ mode: 'contains' }))).toThrow('Rule 1 of "Links" is incomplete.');
+    expect(() => parseTemplateFile(rule({ mode: 'regex', pattern: '(' }))).toThrow('Rule 1:');
+    expect(() => parseTemplateFile(rule({ pattern: '' }))).toThrow('Rule 1 has nothing to match.');
+  });
+});
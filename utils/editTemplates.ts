@@ -0,0 +1,148 @@
+// Named sets of payload rules, kept between sessions so the same changes can be
+// applied to each new version of a document. Template files hold a list:
+//   { "format": "qr-edit-templates", "version": 1, "templates": [...] }
+
+import { DetectedQrCode, QrEdit } from '../types';
+import { applyBulkRule, BulkReplaceMatch, BulkReplaceRule, buildBulkPattern } from './bulkReplace';
+import { getPolygonCenter, getQrCorners, isObject, isPoint, isPointInPolygon, Point } from './helpers';
+
+export type TemplateMatchMode = 'equals' | 'startsWith' | 'regex';
+
+export interface TemplateRule {
+  mode: TemplateMatchMode;
+  pattern: string;
+  // The whole new payload for 'equals', the new prefix for 'startsWith', and a
+  // replacement ($1 for groups) for 'regex'.
+  replacement: string;
+  // Only codes on this page (1-based).
+  page?: number;
+  // Only the code covering this point, in rendered page pixels.
+  position?: Point;
+}
+
+export interface EditTemplate {
+  id: string;
+  name: string;
+  rules: TemplateRule[];
+  // Apply as soon as a page's codes are detected instead of only suggesting it.
+  autoApply: boolean;
+  updatedAt: string;
+}
+
+const FILE_FORMAT = 'qr-edit-templates';
+const FILE_VERSION = 1;
+const MATCH_MODES: TemplateMatchMode[] = ['equals', 'startsWith', 'regex'];
+
+const toBulkRule = (rule: TemplateRule): BulkReplaceRule =>
+  ({ pattern: rule.pattern, replacement: rule.replacement, useRegex: true, caseSensitive: true });
+
+// The new payload, or null when the rule doesn't match. Throws a SyntaxError
+// for an invalid regular expression.
+export function applyTemplateRule(text: string, rule: TemplateRule): string | null {
+  switch (rule.mode) {
+    case 'equals':
+      return text === rule.pattern ? rule.replacement : null;
+    case 'startsWith':
+      return text.startsWith(rule.pattern) ? rule.replacement + text.slice(rule.pattern.length) : null;
+    case 'regex':
+      return buildBulkPattern(toBulkRule(rule)).test(text) ? applyBulkRule(text, toBulkRule(rule)) : null;
+  }
+}
+
+function ruleCovers(rule: TemplateRule, qrCode: DetectedQrCode): boolean {
+  if (rule.page !== undefined && rule.page !== (qrCode.page ?? 1)) return false;
+  return !rule.position || isPointInPolygon(rule.position, getQrCorners(qrCode.location));
+}
+
+// The first rule that matches a code decides its new payload.
+export function findTemplateMatches(
+  codes: DetectedQrCode[],
+  getPayload: (qrCode: DetectedQrCode) => string,
+  template: EditTemplate
+): BulkReplaceMatch[] {
+  return codes.flatMap(qrCode => {
+    const oldText = getPayload(qrCode);
+    for (const rule of template.rules) {
+      if (!rule.pattern || !ruleCovers(rule, qrCode)) continue;
+      const newText = applyTemplateRule(oldText, rule);
+      if (newText !== null) return newText === oldText ? [] : [{ qrCode, oldText, newText }];
+    }
+    return [];
+  });
+}
+
+// One exact rule per edited code, from its original payload to its latest one,
+// pinned to the code's page and position.
+export function createTemplateFromEdits(name: string, edits: QrEdit[]): EditTemplate {
+  const byCode = new Map<string, { first: QrEdit, last: QrEdit }>();
+  edits.filter(edit => !edit.inserted).forEach(edit => {
+    const entry = byCode.get(edit.qrCode.id);
+    byCode.set(edit.qrCode.id, { first: entry?.first ?? edit, last: edit });
+  });
+  return {
+    id: crypto.randomUUID(),
+    name,
+    rules: [...byCode.values()].map(({ first, last }) => ({
+      mode: 'equals',
+      pattern: first.oldText,
+      replacement: last.newText,
+      page: last.page,
+      position: getPolygonCenter(getQrCorners(first.qrCode.location)),
+    })),
+    autoApply: false,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// Throws with a message naming the first problem found.
+export function validateTemplate(template: EditTemplate) {
+  if (!template.name.trim()) throw new Error('The template needs a name.');
+  template.rules.forEach((rule, i) => {
+    if (!rule.pattern) throw new Error(`Rule ${i + 1} has nothing to match.`);
+    if (rule.mode === 'regex') {
+      try {
+        buildBulkPattern(toBulkRule(rule));
+      } catch (e) {
+        throw new Error(`Rule ${i + 1}: ${(e as Error).message}`);
+      }
+    }
+  });
+}
+
+export function serializeTemplates(templates: EditTemplate[]): string {
+  return JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, templates }, null, 2);
+}
+
+const isMatchMode = (value: unknown): value is TemplateMatchMode => MATCH_MODES.some(mode => mode === value);
+
+function parseRule(rule: unknown, index: number, templateName: string): TemplateRule {
+  if (!isObject(rule) || !isMatchMode(rule.mode) || typeof rule.pattern !== 'string' || typeof rule.replacement !== 'string') {
+    throw new Error(`Rule ${index + 1} of "${templateName}" is incomplete.`);
+  }
+  return {
+    mode: rule.mode,
+    pattern: rule.pattern,
+    replacement: rule.replacement,
+    page: typeof rule.page === 'number' && Number.isInteger(rule.page) ? rule.page : undefined,
+    position: isPoint(rule.position) ? { x: rule.position.x, y: rule.position.y } : undefined,
+  };
+}
+
+export function parseTemplateFile(text: string): EditTemplate[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!isObject(parsed) || parsed.format !== FILE_FORMAT || !Array.isArray(parsed.templates)) throw new Error('This is not a template file.');
+  if (typeof parsed.version === 'number' && parsed.version > FILE_VERSION) throw new Error('The file was written by a newer version of this app.');
+  return parsed.templates.map((entry: unknown, i: number): EditTemplate => {
+    if (!isObject(entry) || typeof entry.name !== 'string' || !Array.isArray(entry.rules)) throw new Error(`Template ${i + 1} is incomplete.`);
+    const name = entry.name;
+    const template: EditTemplate = {
+      id: typeof entry.id === 'string' ? entry.id : crypto.randomUUID(),
+      name,
+      rules: entry.rules.map((rule: unknown, j: number) => parseRule(rule, j, name)),
+      autoApply: !!entry.autoApply,
+      updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : new Date().toISOString(),
+    };
+    validateTemplate(template);
+    return template;
+  });
+}
@@ -1,4 +1,28 @@
 
+import { DetectedQrCode, FileType, QrPlacement } from '../types';
+
+export function getFileType(file: File): FileType {
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type.startsWith('image/')) return 'image';
+  return null;
+}
+
+export function getModifiedFilename(filename: string): string {
+  const parts = filename.split('.');
+  const ext = parts.pop();
+  return `${parts.join('.')}_modified.${ext}`;
+}
+
+// Saves a blob made on demand, through a temporary link rather than one kept on the page.
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 export function isValidUrl(text: string): boolean {
   if (!text.toLowerCase().startsWith('http:') && !text.toLowerCase().startsWith('https://')) {
     return false;
@@ -10,3 +34,141 @@ export function isValidUrl(text: string): boolean {
     return false;
   }
 }
+
+export type Point = { x: number; y: number };
+
+// Narrowing for values parsed from JSON files.
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+export const isPoint = (value: unknown): value is Point => isObject(value) && typeof value.x === 'number' && typeof value.y === 'number';
+
+type QrLocation = {
+  topLeftCorner: Point;
+  topRightCorner: Point;
+  bottomRightCorner: Point;
+  bottomLeftCorner: Point;
+};
+
+// Version assumed for a code whose version isn't known (reported as 0), such as
+// one outlined by hand that couldn't be decoded.
+const ASSUMED_QR_VERSION = 2;
+
+export function getQrVersion(qr: Pick<DetectedQrCode, 'version'>): number {
+  return qr.version || ASSUMED_QR_VERSION;
+}
+
+// Modules along one side of the symbol, quiet zone excluded.
+export function getModuleCount(qr: Pick<DetectedQrCode, 'version'>): number {
+  return getQrVersion(qr) * 4 + 17;
+}
+
+// Corners in drawing order: top-left, top-right, bottom-right, bottom-left.
+export function getQrCorners(location: QrLocation): Point[] {
+  return [location.topLeftCorner, location.topRightCorner, location.bottomRightCorner, location.bottomLeftCorner];
+}
+
+export function getPolygonCenter(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
+
+// Ray-casting test; works for the non-axis-aligned quads jsQR reports for rotated codes.
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Codes from separate scans (a page scan and the document inventory) have
+// different ids; the same code is recognised by its page and location.
+export function isSameQrCode(a: DetectedQrCode, b: DetectedQrCode): boolean {
+  return (a.page ?? 1) === (b.page ?? 1) && isPointInPolygon(getPolygonCenter(getQrCorners(a.location)), getQrCorners(b.location));
+}
+
+// Shoelace formula; the sign depends on winding, so the absolute value is returned.
+export function getPolygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return Math.abs(area) / 2;
+}
+
+// The code whose quad contains `point`. Where quads overlap, the smallest wins,
+// so a small code next to or on top of a larger one can still be picked.
+export function findQrCodeAt(point: Point, codes: DetectedQrCode[]): DetectedQrCode | undefined {
+  return codes
+    .filter(code => isPointInPolygon(point, getQrCorners(code.location)))
+    .sort((a, b) => getPolygonArea(getQrCorners(a.location)) - getPolygonArea(getQrCorners(b.location)))[0];
+}
+
+// Puts four arbitrary points in getQrCorners order by sorting them around their
+// centre and starting from the one closest to the top-left.
+export function orderQuadCorners(points: Point[]): Point[] {
+  const center = getPolygonCenter(points);
+  // In y-down coordinates increasing angle runs clockwise on screen.
+  const sorted = [...points].sort((a, b) => Math.atan2(a.y - center.y, a.x - center.x) - Math.atan2(b.y - center.y, b.x - center.x));
+  const start = sorted.reduce((best, p, i) => (p.x + p.y < sorted[best].x + sorted[best].y ? i : best), 0);
+  return [...sorted.slice(start), ...sorted.slice(0, start)];
+}
+
+export function getPlacementCorners({ x, y, size }: QrPlacement): Point[] {
+  return [{ x, y }, { x: x + size, y }, { x: x + size, y: y + size }, { x, y: y + size }];
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', '').slice(0, 6), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+export function rgbToHex([r, g, b]: [number, number, number]): string {
+  return `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function relativeLuminance([r, g, b]: [number, number, number]): number {
+  const [lr, lg, lb] = [r, g, b].map(c => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+// WCAG contrast ratio, from 1 (identical) to 21 (black on white).
+export function getContrastRatio(hexA: string, hexB: string): number {
+  const a = relativeLuminance(hexToRgb(hexA));
+  const b = relativeLuminance(hexToRgb(hexB));
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+// Returns a warning when the colours are likely to scan poorly, or null if they look fine.
+export function getQrColorWarning(darkColor: string, lightColor: string): string | null {
+  if (relativeLuminance(hexToRgb(darkColor)) > relativeLuminance(hexToRgb(lightColor))) {
+    return 'Light-on-dark (inverted) codes are not supported by many scanners.';
+  }
+  const ratio = getContrastRatio(darkColor, lightColor);
+  if (ratio < 4) {
+    return `Contrast ratio is ${ratio.toFixed(1)}:1; aim for at least 4:1 so the code scans reliably.`;
+  }
+  return null;
+}
+
+// Scales every point of a QR location about the centre of its corners, e.g. to
+// grow a symbol's outline so it also covers a quiet zone.
+export function scaleQrLocation(location: DetectedQrCode['location'], factor: number): DetectedQrCode['location'] {
+  const center = getPolygonCenter(getQrCorners(location));
+  const scaled = {} as DetectedQrCode['location'];
+  for (const key of Object.keys(location) as (keyof DetectedQrCode['location'])[]) {
+    const point = location[key];
+    if (point) {
+      scaled[key] = { x: center.x + (point.x - center.x) * factor, y: center.y + (point.y - center.y) * factor };
+    }
+  }
+  return scaled;
+}
@@ -0,0 +1,343 @@
+// Parsers and serializers for the structured payloads QR codes commonly carry.
+// Serializing always merges the edited values back into the original payload,
+// so fields the form doesn't know about survive a round trip untouched.
+
+export type PayloadType = 'wifi' | 'vcard' | 'email' | 'sms' | 'geo' | 'event';
+
+export interface PayloadField {
+  key: string;
+  label: string;
+  input: 'text' | 'password' | 'select' | 'checkbox' | 'textarea' | 'number';
+  options?: string[];
+  placeholder?: string;
+}
+
+export type PayloadValues = Record<string, string>;
+
+export interface PayloadFormat {
+  type: PayloadType;
+  label: string;
+  fields: PayloadField[];
+  matches: (text: string) => boolean;
+  parse: (text: string) => PayloadValues;
+  serialize: (values: PayloadValues, original: string) => string;
+  // Returns an error message per invalid field key.
+  validate: (values: PayloadValues) => Record<string, string>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{3,}$/;
+const ICAL_DATE_PATTERN = /^\d{8}(T\d{6}Z?)?$/;
+const WPA_TYPE_PATTERN = /^(WPA[23]?|SAE)$/i;
+// A pre-shared key given directly instead of a passphrase.
+const WPA_KEY_PATTERN = /^[0-9a-f]{64}$/i;
+
+// --- "KEY:value;KEY:value;;" payloads (WIFI:, MATMSG:) ---
+
+// `raw` keeps the original escaping of entries the user didn't touch.
+interface Entry {
+  key: string;
+  value: string;
+  raw: string;
+}
+
+function escapeKeyValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1');
+}
+
+function parseKeyValueBody(body: string): Entry[] {
+  const entries: Entry[] = [];
+  let i = 0;
+  while (i < body.length) {
+    if (body[i] === ';') {
+      i++;
+      continue;
+    }
+    let key = '';
+    while (i < body.length && body[i] !== ':') key += body[i++];
+    i++;
+    const start = i;
+    let value = '';
+    while (i < body.length && body[i] !== ';') {
+      if (body[i] === '\\' && i + 1 < body.length) {
+        value += body[i + 1];
+        i += 2;
+      } else {
+        value += body[i++];
+      }
+    }
+    entries.push({ key, value, raw: body.slice(start, i) });
+  }
+  return entries;
+}
+
+function mergeEntries(entries: Entry[], values: PayloadValues): Entry[] {
+  const merged = entries
+    .filter(entry => !(entry.key in values) || values[entry.key] !== '')
+    .map(entry => (entry.key in values && values[entry.key] !== entry.value
+      ? { key: entry.key, value: values[entry.key], raw: escapeKeyValue(values[entry.key]) }
+      : entry));
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== '' && !entries.some(entry => entry.key === key)) merged.push({ key, value, raw: escapeKeyValue(value) });
+  }
+  return merged;
+}
+
+function keyValueFormat(
+  prefix: string,
+  base: Omit<PayloadFormat, 'matches' | 'parse' | 'serialize'>
+): PayloadFormat {
+  const splitPrefix = (text: string) => ({ head: text.slice(0, prefix.length), body: text.slice(prefix.length) });
+  return {
+    ...base,
+    matches: text => text.toUpperCase().startsWith(prefix),
+    parse: text => {
+      const values: PayloadValues = {};
+      parseKeyValueBody(splitPrefix(text).body).forEach(({ key, value }) => {
+        if (!(key in values)) values[key] = value;
+      });
+      return values;
+    },
+    serialize: (values, original) => {
+      const { head, body } = original.toUpperCase().startsWith(prefix) ? splitPrefix(original) : { head: prefix, body: '' };
+      const entries = mergeEntries(parseKeyValueBody(body), values);
+      return `${head}${entries.map(({ key, raw }) => `${key}:${raw}`).join(';')};;`;
+    },
+  };
+}
+
+// --- Content-line payloads (vCard, iCalendar) ---
+
+interface ContentLine {
+  name: string;
+  nameWithParams: string;
+  value: string;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN\\,;])/g, (_, ch) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function parseContentLines(text: string): ContentLine[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const colon = line.indexOf(':');
+      const nameWithParams = colon < 0 ? line : line.slice(0, colon);
+      return {
+        name: nameWithParams.split(';')[0].toUpperCase(),
+        nameWithParams,
+        value: colon < 0 ? '' : line.slice(colon + 1),
+      };
+    });
+}
+
+function contentLineFormat(
+  component: string,
+  properties: Record<string, { escaped: boolean }>,
+  base: Omit<PayloadFormat, 'matches' | 'parse' | 'serialize'>
+): PayloadFormat {
+  const begin = `BEGIN:${component}`;
+  return {
+    ...base,
+    matches: text => text.toUpperCase().includes(begin),
+    parse: text => {
+      const values: PayloadValues = {};
+      for (const line of parseContentLines(text)) {
+        if (line.name in properties && !(line.name in values)) {
+          values[line.name] = properties[line.name].escaped ? unescapeText(line.value) : line.value;
+        }
+      }
+      return values;
+    },
+    serialize: (values, original) => {
+      const source = original.toUpperCase().includes(begin) ? original : `${begin}\nEND:${component}`;
+      const newline = source.includes('\r\n') ? '\r\n' : '\n';
+      const lines = parseContentLines(source);
+      const encode = (key: string) => (properties[key].escaped ? escapeText(values[key]) : values[key]);
+      const decode = (line: ContentLine) => (properties[line.name].escaped ? unescapeText(line.value) : line.value);
+
+      const seen = new Set<string>();
+      const merged = lines.flatMap(line => {
+        if (!(line.name in values) || !(line.name in properties) || seen.has(line.name)) return [line];
+        seen.add(line.name);
+        if (values[line.name] === '') return [];
+        return decode(line) === values[line.name] ? [line] : [{ ...line, value: encode(line.name) }];
+      });
+      const end = merged.findIndex(line => line.name === 'END' && line.value.toUpperCase() === component);
+      const added = Object.keys(values)
+        .filter(key => !seen.has(key) && values[key] !== '')
+        .map(key => ({ name: key, nameWithParams: key, value: encode(key) }));
+      merged.splice(end < 0 ? merged.length : end, 0, ...added);
+
+      return merged.map(line => `${line.nameWithParams}:${line.value}`).join(newline);
+    },
+  };
+}
+
+// --- Formats ---
+
+const wifiFormat = keyValueFormat('WIFI:', {
+  type: 'wifi',
+  label: 'Wi-Fi',
+  fields: [
+    { key: 'S', label: 'SSID', input: 'text' },
+    { key: 'T', label: 'Encryption', input: 'select', options: ['WPA', 'WEP', 'nopass'] },
+    { key: 'P', label: 'Password', input: 'password' },
+    { key: 'H', label: 'Hidden network', input: 'checkbox' },
+  ],
+  validate: values => {
+    const errors: Record<string, string> = {};
+    if (!values.S) errors.S = 'SSID is required.';
+    const password = values.P || '';
+    // WPA2, WPA3 and SAE aren't offered, but payloads using them are kept as they are.
+    const isPassphrase = WPA_TYPE_PATTERN.test(values.T || '');
+    if (isPassphrase && (password.length < 8 || password.length > 63) && !WPA_KEY_PATTERN.test(password)) {
+      errors.P = 'WPA passwords must be 8 to 63 characters, or a key of 64 hex digits.';
+    }
+    if (values.T === 'WEP' && ![5, 10, 13, 26].includes(password.length)) {
+      errors.P = 'WEP keys must be 5 or 13 characters, or 10 or 26 hex digits.';
+    }
+    return errors;
+  },
+});
+
+const emailFormat = keyValueFormat('MATMSG:', {
+  type: 'email',
+  label: 'Email',
+  fields: [
+    { key: 'TO', label: 'To', input: 'text', placeholder: 'name@example.com' },
+    { key: 'SUB', label: 'Subject', input: 'text' },
+    { key: 'BODY', label: 'Body', input: 'textarea' },
+  ],
+  validate: values => (EMAIL_PATTERN.test(values.TO || '') ? {} : { TO: 'Enter a valid email address.' }),
+});
+
+const smsFormat: PayloadFormat = {
+  type: 'sms',
+  label: 'SMS',
+  fields: [
+    { key: 'number', label: 'Phone number', input: 'text' },
+    { key: 'message', label: 'Message', input: 'textarea' },
+  ],
+  matches: text => text.toUpperCase().startsWith('SMSTO:'),
+  parse: text => {
+    const body = text.slice('SMSTO:'.length);
+    const colon = body.indexOf(':');
+    return colon < 0 ? { number: body, message: '' } : { number: body.slice(0, colon), message: body.slice(colon + 1) };
+  },
+  serialize: (values, original) => {
+    const prefix = original.toUpperCase().startsWith('SMSTO:') ? original.slice(0, 6) : 'SMSTO:';
+    return `${prefix}${values.number || ''}:${values.message || ''}`;
+  },
+  validate: values => (PHONE_PATTERN.test(values.number || '') ? {} : { number: 'Enter a valid phone number.' }),
+};
+
+const GEO_PATTERN = /^geo:([^,;?]*),([^,;?]*)(?:,([^;?]*))?([\s\S]*)$/i;
+
+const geoFormat: PayloadFormat = {
+  type: 'geo',
+  label: 'Location',
+  fields: [
+    { key: 'lat', label: 'Latitude', input: 'number' },
+    { key: 'lng', label: 'Longitude', input: 'number' },
+    { key: 'alt', label: 'Altitude (optional)', input: 'number' },
+  ],
+  matches: text => GEO_PATTERN.test(text),
+  parse: text => {
+    const [, lat = '', lng = '', alt = ''] = text.match(GEO_PATTERN) || [];
+    return { lat, lng, alt };
+  },
+  serialize: (values, original) => {
+    // Anything after the coordinates (";crs=...", "?q=...") is carried over verbatim.
+    const match = original.match(GEO_PATTERN);
+    const prefix = match ? original.slice(0, 4) : 'geo:';
+    const rest = match ? match[4] : '';
+    return `${prefix}${values.lat},${values.lng}${values.alt ? `,${values.alt}` : ''}${rest}`;
+  },
+  validate: values => {
+    const errors: Record<string, string> = {};
+    const lat = Number(values.lat);
+    const lng = Number(values.lng);
+    if (values.lat === '' || Number.isNaN(lat) || lat < -90 || lat > 90) errors.lat = 'Latitude must be between -90 and 90.';
+    if (values.lng === '' || Number.isNaN(lng) || lng < -180 || lng > 180) errors.lng = 'Longitude must be between -180 and 180.';
+    if (values.alt && Number.isNaN(Number(values.alt))) errors.alt = 'Altitude must be a number.';
+    return errors;
+  },
+};
+
+const vcardFormat = contentLineFormat(
+  'VCARD',
+  {
+    FN: { escaped: true },
+    ORG: { escaped: false },
+    TITLE: { escaped: true },
+    TEL: { escaped: false },
+    EMAIL: { escaped: false },
+    URL: { escaped: false },
+    NOTE: { escaped: true },
+  },
+  {
+    type: 'vcard',
+    label: 'Contact (vCard)',
+    fields: [
+      { key: 'FN', label: 'Full name', input: 'text' },
+      { key: 'ORG', label: 'Organization', input: 'text' },
+      { key: 'TITLE', label: 'Title', input: 'text' },
+      { key: 'TEL', label: 'Phone', input: 'text' },
+      { key: 'EMAIL', label: 'Email', input: 'text' },
+      { key: 'URL', label: 'Website', input: 'text' },
+      { key: 'NOTE', label: 'Note', input: 'textarea' },
+    ],
+    validate: values => {
+      const errors: Record<string, string> = {};
+      if (!values.FN) errors.FN = 'Full name is required.';
+      if (values.TEL && !PHONE_PATTERN.test(values.TEL)) errors.TEL = 'Enter a valid phone number.';
+      if (values.EMAIL && !EMAIL_PATTERN.test(values.EMAIL)) errors.EMAIL = 'Enter a valid email address.';
+      if (values.URL && !/^https?:\/\/\S+$/i.test(values.URL)) errors.URL = 'Enter a full http(s) URL.';
+      return errors;
+    },
+  }
+);
+
+const eventFormat = contentLineFormat(
+  'VEVENT',
+  {
+    SUMMARY: { escaped: true },
+    DTSTART: { escaped: false },
+    DTEND: { escaped: false },
+    LOCATION: { escaped: true },
+    DESCRIPTION: { escaped: true },
+  },
+  {
+    type: 'event',
+    label: 'Calendar event',
+    fields: [
+      { key: 'SUMMARY', label: 'Title', input: 'text' },
+      { key: 'DTSTART', label: 'Start', input: 'text', placeholder: '20250131T090000Z' },
+      { key: 'DTEND', label: 'End', input: 'text', placeholder: '20250131T100000Z' },
+      { key: 'LOCATION', label: 'Location', input: 'text' },
+      { key: 'DESCRIPTION', label: 'Description', input: 'textarea' },
+    ],
+    validate: values => {
+      const errors: Record<string, string> = {};
+      if (!values.SUMMARY) errors.SUMMARY = 'Title is required.';
+      if (!ICAL_DATE_PATTERN.test(values.DTSTART || '')) errors.DTSTART = 'Use YYYYMMDD or YYYYMMDDTHHMMSS(Z).';
+      if (values.DTEND && !ICAL_DATE_PATTERN.test(values.DTEND)) errors.DTEND = 'Use YYYYMMDD or YYYYMMDDTHHMMSS(Z).';
+      else if (values.DTEND && values.DTSTART && values.DTEND < values.DTSTART) errors.DTEND = 'End must not be before start.';
+      return errors;
+    },
+  }
+);
+
+export const PAYLOAD_FORMATS: PayloadFormat[] = [wifiFormat, vcardFormat, emailFormat, smsFormat, geoFormat, eventFormat];
+
+export function detectPayloadFormat(text: string): PayloadFormat | null {
+  return PAYLOAD_FORMATS.find(format => format.matches(text)) ?? null;
+}
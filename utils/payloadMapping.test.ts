@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseMappingFile, toCsv } from './payloadMapping';
+
+describe('toCsv and parseCsv', () => {
+  it('round-trip quotes, commas and line breaks', () => {
+    const rows = [
+      ['old', 'new'],
+      ['https://a.example/?x=1,2', 'say "hi"'],
+      ['line one\nline two', ''],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('writes numbers as they are', () => {
+    expect(toCsv([[1, -2.5, 'x']])).toBe('1,-2.5,x');
+  });
+
+  it('keeps formula-like text from being run by spreadsheets', () => {
+    const cells = ['=HYPERLINK("https://evil.example")', '+1', '-1', '@SUM(A1)', '\tx', 'https://ok.example'];
+    expect(parseCsv(toCsv([cells]))[0]).toEqual([...cells.slice(0, 5).map(cell => `'${cell}`), cells[5]]);
+  });
+});
+
+describe('parseMappingFile', () => {
+  it('reads a CSV mapping with a header row, keeping payloads as written', async () => {
+    const file = new File(['Old Payload,New Payload\r\nhttps://a, https://b \r\n"x,y",z\r\n'], 'mapping.csv');
+    expect(await parseMappingFile(file)).toEqual(new Map([['https://a', ' https://b '], ['x,y', 'z']]));
+  });
+
+  it('reads both JSON shapes', async () => {
+    const object = new File([JSON.stringify({ a: 'b' })], 'mapping.json');
+    const array = new File([JSON.stringify([{ from: 'a', to: 'b' }])], 'mapping.json');
+    expect(await parseMappingFile(object)).toEqual(new Map([['a', 'b']]));
+    expect(await parseMappingFile(array)).toEqual(new Map([['a', 'b']]));
+  });
+
+  it('rejects rows without a new payload, naming their line in the file', async () => {
+    await expect(parseMappingFile(new File(['only-old\n'], 'mapping.csv'))).rejects.toThrow('Line 1');
+    const file = new File(['old,new\n"a\nb",c\n\nonly-old\n'], 'mapping.csv');
+    await expect(parseMappingFile(file)).rejects.toThrow('Line 5');
+  });
+});
@@ -0,0 +1,124 @@
+// Old payload -> new payload mappings used by batch mode. Accepted formats:
+//   JSON: { "old": "new", ... } or [{ "old": "...", "new": "..." }, ...]
+//   CSV:  two columns (old, new), with an optional header row.
+
+export type PayloadMapping = Map<string, string>;
+
+const HEADER_NAMES = [
+  ['old', 'new'],
+  ['from', 'to'],
+  ['old payload', 'new payload'],
+  ['old_payload', 'new_payload'],
+];
+
+interface CsvRow {
+  cells: string[];
+  // 1-based line of the file the row starts on; quoted fields can span lines.
+  line: number;
+}
+
+function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  return rows.filter(r => r.cells.some(cell => cell.trim() !== ''));
+}
+
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map(row => row.cells);
+}
+
+// Spreadsheets run a cell starting with one of these as a formula, so a payload
+// like "=HYPERLINK(...)" could do more than display; a leading apostrophe keeps
+// it text. Numbers are written as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows
+    .map(row => row.map(cell => {
+      const text = typeof cell === 'string' && FORMULA_START.test(cell) ? `'${cell}` : String(cell);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(','))
+    .join('\r\n');
+}
+
+function parseMappingCsv(text: string): PayloadMapping {
+  const rows = parseCsvRows(text);
+  const first = rows[0]?.cells;
+  const isHeader = first && HEADER_NAMES.some(([oldName, newName]) =>
+    first[0]?.trim().toLowerCase() === oldName && first[1]?.trim().toLowerCase() === newName);
+
+  // Payloads are kept exactly as written: a space can be part of one.
+  const mapping: PayloadMapping = new Map();
+  rows.slice(isHeader ? 1 : 0).forEach(({ cells, line }) => {
+    if (cells.length < 2) throw new Error(`Line ${line} needs an old and a new payload.`);
+    mapping.set(cells[0], cells[1]);
+  });
+  return mapping;
+}
+
+function parseMappingJson(text: string): PayloadMapping {
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) {
+    return new Map(parsed.map((entry, i) => {
+      const oldText = entry?.old ?? entry?.from;
+      const newText = entry?.new ?? entry?.to;
+      if (typeof oldText !== 'string' || typeof newText !== 'string') {
+        throw new Error(`Entry ${i + 1} needs string "old" and "new" fields.`);
+      }
+      return [oldText, newText];
+    }));
+  }
+  if (parsed && typeof parsed === 'object') {
+    return new Map(Object.entries(parsed).map(([oldText, newText]) => {
+      if (typeof newText !== 'string') throw new Error(`Mapping for "${oldText}" must be a string.`);
+      return [oldText, newText];
+    }));
+  }
+  throw new Error('Mapping JSON must be an object or an array.');
+}
+
+export async function parseMappingFile(file: File): Promise<PayloadMapping> {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  const mapping = isJson ? parseMappingJson(text) : parseMappingCsv(text);
+  if (mapping.size === 0) throw new Error('The mapping file contains no rules.');
+  return mapping;
+}
@@ -0,0 +1,57 @@
+import { crc32 } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Follows the end record to the central directory, and each of its entries to
+// the local header and data it points at.
+function readZip(bytes: Uint8Array): ReadEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    entries.push({ name, crc, data: bytes.subarray(dataStart, dataStart + size) });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('stores every kind of entry so it reads back byte for byte', async () => {
+    const binary = new Uint8Array(300).map((_, i) => (i * 7) & 0xff);
+    const zip = await createZip([
+      { name: 'notes.txt', data: 'Grüße' },
+      { name: 'raw.bin', data: binary },
+      { name: 'dir/blob.pdf', data: new Blob(['%PDF-1.7']) },
+    ]);
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+
+    expect(zip.type).toBe('application/zip');
+    expect(entries.map(e => e.name)).toEqual(['notes.txt', 'raw.bin', 'dir/blob.pdf']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('Grüße');
+    expect(entries[1].data).toEqual(binary);
+    expect(new TextDecoder().decode(entries[2].data)).toBe('%PDF-1.7');
+    entries.forEach(entry => expect(entry.crc).toBe(crc32(entry.data)));
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const zip = await createZip([]);
+    expect(readZip(new Uint8Array(await zip.arrayBuffer()))).toEqual([]);
+  });
+});